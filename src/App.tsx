@@ -1,47 +1,129 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import type { Session } from '@supabase/supabase-js';
 import { getSupabaseClient } from './lib/supabaseClient';
-import { saveResultsToBackend, fetchResultsList, fetchResultById, type ResultsListItem, type ResultDetail } from './services/resultsApi';
+import {
+  saveResultsToBackend,
+  fetchResultById,
+  saveResultExplanations,
+  type ResultsListItem,
+  type ResultsQuery,
+  type ResultDetail,
+  type SubmissionTiming,
+} from './services/resultsApi';
 import Navbar from './components/Navbar';
-
-// --- Type Definitions ---
-// Based on your backend's expected JSON structure
-
-interface McqQuestion {
-  No: number;
-  Q: string;
-  Options: string[];
-}
-
-interface ApiMcqResponse {
-  questionType: "MCQ";
-  QuestionArray: McqQuestion[];
-  AnswerArray: string[]; // This holds the correct answers, e.g., "B"
-}
-
-interface ApiSubjectiveResponse {
-  questionType: "Subjective";
-  QuestionArray: string[];
-}
-
-// A union type for the API data
-type ApiResponseData = ApiMcqResponse | ApiSubjectiveResponse;
-
-// The full API response structure
-interface FullApiResponse {
-  status: "success";
-  data: ApiResponseData;
-}
-
-// Type for storing user's answers
-interface UserAnswers {
-  [questionIndex: number]: string; // e.g., { 0: "A", 1: "My subjective answer" }
-}
+import SubjectiveEvaluationPanel from './components/SubjectiveEvaluationPanel';
+import ExplanationPanel from './components/ExplanationPanel';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import ResultsFilters from './components/ResultsFilters';
+import ImportQuizDialog from './components/ImportQuizDialog';
+import QuizEditor from './components/QuizEditor';
+import QuizTemplatesDialog from './components/QuizTemplatesDialog';
+import QuestionPalette, { type QuestionStatus } from './components/QuestionPalette';
+import ShortcutsOverlay from './components/ShortcutsOverlay';
+import { useKeyboardShortcuts, type ShortcutBinding } from './hooks/useKeyboardShortcuts';
+import { clearQuizSession, loadQuizSession, saveQuizSession, type StoredQuizSession } from './lib/sessionStore';
+import { discardOutboxEntry, enqueueResult, flushOutbox, listOutbox, type OutboxEntry } from './lib/outbox';
+import {
+  addToBank,
+  bankItemId,
+  dueBankItems,
+  listBank,
+  recordReviews,
+  removeFromBank,
+  reviewQuality,
+  type BankItem,
+  type NewBankItem,
+} from './lib/questionBank';
+import { computeAnalytics, localDayKey, type AnalyticsReport } from './lib/analytics';
+import { LOCAL_SEARCH_LIMIT, forgetResultDetail, loadResultHistory, searchResultsPage } from './lib/resultsSearch';
+import { EXPORT_FORMAT_LABELS, exportResults, openPrintWindow, type ExportFormat } from './lib/exportResults';
+import { buildRetryQuiz, missedQuestionIndices, summarizeAttempt, type AttemptSummary, type RetryLink } from './lib/attempts';
+import { deleteTemplate, listTemplates, saveTemplate, type QuizTemplate } from './lib/quizTemplates';
+import type { SaveResultsPayload } from './services/resultsApi';
+import {
+  appendFocusLoss,
+  describeFocusLosses,
+  describeFocusReport,
+  type AwayTimingMode,
+  type FocusLog,
+  type FocusReport,
+} from './lib/focusTracking';
+import {
+  CONFIDENCE_LABELS,
+  CONFIDENCE_LEVELS,
+  computeCalibration,
+  type CalibrationReport,
+  type Confidence,
+  type ConfidenceMap,
+} from './lib/calibration';
+import {
+  DEFAULT_SUBJECTIVE_MAX_MARKS,
+  evaluateSubjectiveAnswers,
+  sumMarks,
+  type SubjectiveEvaluation,
+} from './services/evaluationApi';
+import { buildExplanationRequest, fetchExplanation, type Explanation } from './services/explanationApi';
+import { generateQuestions, QuizApiError, type QuizApiErrorKind } from './services/quizApi';
+import type {
+  ApiResponseData,
+  AssertionReasonQuestion,
+  ItemType,
+  McqQuestion,
+  NumericQuestion,
+  QuestionMix,
+  QuestionType,
+  UserAnswers,
+} from './types/quiz';
+import {
+  ASSERTION_REASON_OPTIONS,
+  ITEM_TYPES,
+  QUESTION_TYPE_LABELS,
+  decodeMultiSelect,
+  encodeMultiSelect,
+  getItemText,
+  getQuizItems,
+  isAttempted,
+  itemsToMixedQuiz,
+  mixTotal,
+  optionLetter,
+  parseNumericAnswer,
+  parseStoredQuiz,
+  scoreItem,
+  type QuizItem,
+} from './lib/quizItems';
+import { isAbortError, type RetryAttempt } from './lib/fetchWithRetry';
+import { isMockBackendActive } from './mock/mockBackend';
+import { createPrefetchCache, prefetchKeyFor } from './lib/prefetchCache';
+import {
+  MARKING_SCHEMES,
+  computeScoreSummary,
+  formatMarks,
+  markItem,
+  type MarkingScheme,
+  type MarkingSchemeId,
+  type ScoreSummary,
+} from './lib/markingSchemes';
+import {
+  DEFAULT_LANGUAGES,
+  DIFFICULTIES,
+  EXAM_PROFILES,
+  applyExamProfile,
+  findExamProfile,
+  markingSchemeFor,
+} from './lib/examProfiles';
 
 // The base URL for our backend API
-// Point directly to backend during development
-const API_BASE_URL = 'https://practise-pitch-be.onrender.com/api/ai';
+// Point directly to backend during development; override with VITE_API_BASE_URL
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://practise-pitch-be.onrender.com/api/ai';
 const RESULTS_URL = '/api/results';
+const PREFETCH_PREF_KEY = 'practise-pitch-prefetch';
+const AWAY_TIMING_PREF_KEY = 'practise-pitch-away-timing';
+const RESULTS_QUERY_PREF_KEY = 'practise-pitch-results-query';
+const DEFAULT_SECONDS_PER_QUESTION = 90; // timed-mode pace for custom exams
+const TIME_WARNINGS_MS = [5 * 60_000, 60_000];
+const REVISION_TOPIC = 'Revision';
+const MAX_REVISION_QUESTIONS = 20;
+const MAX_ATTEMPT_HISTORY = 10; // earlier attempts fetched for a retried result
 
 // --- Main App Component ---
 export default function App() {
@@ -50,6 +132,7 @@ export default function App() {
   // 1. UI State
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorKind, setErrorKind] = useState<QuizApiErrorKind | null>(null);
 
   // 2. Quiz Setup State
   const [quizConfig, setQuizConfig] = useState({
@@ -59,7 +142,12 @@ export default function App() {
     topic: "Miscellaneous",
     questionType: "MCQ",
     language: "English",
+    // Per-type counts used when questionType is "Mixed"
+    mix: { MCQ: 4, Subjective: 1 } as QuestionMix,
   });
+  // 'auto' uses the exam profile's scheme, or a guess from the exam name. Kept out of quizConfig since
+  // it only affects scoring, not what gets generated.
+  const [markingSchemeId, setMarkingSchemeId] = useState<MarkingSchemeId | 'auto'>('auto');
 
   // 3. Quiz Active State
   const [questions, setQuestions] = useState<ApiResponseData | null>(null);
@@ -67,24 +155,76 @@ export default function App() {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [userAnswers, setUserAnswers] = useState<UserAnswers>({});
   const [isSubmitted, setIsSubmitted] = useState(false);
+  const [visitedQuestions, setVisitedQuestions] = useState<Set<number>>(new Set());
+  const [markedQuestions, setMarkedQuestions] = useState<Set<number>>(new Set());
+  const [showSubmitSummary, setShowSubmitSummary] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  // Streaming generation: how many questions have arrived vs. expected
+  const [generationProgress, setGenerationProgress] = useState<{ received: number; total: number | null } | null>(null);
+  const [generationWarning, setGenerationWarning] = useState<string | null>(null);
+  // Set while the backend is waking up and we are backing off between attempts
+  const [generationRetry, setGenerationRetry] = useState<RetryAttempt | null>(null);
+  // Identifies the in-flight generation; `started` flips once the user presses Start
+  const generationRef = useRef<{ id: number; started: boolean; controller: AbortController } | null>(null);
+  // Opt-in background generation of the next quiz while reviewing results
+  const [prefetchEnabled, setPrefetchEnabled] = useState(() => localStorage.getItem(PREFETCH_PREF_KEY) === '1');
+  const [prefetchStatus, setPrefetchStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
+  const prefetchCacheRef = useRef(createPrefetchCache(2));
+  const prefetchInFlightRef = useRef<{ key: string; controller: AbortController } | null>(null);
   // 4. Validation and timing state
   const [formErrors, setFormErrors] = useState<{ q_no?: string }>({});
   const [quizStartTime, setQuizStartTime] = useState<number | null>(null);
   const [totalTimeMs, setTotalTimeMs] = useState<number | null>(null);
   const [showAnswers, setShowAnswers] = useState(false);
   // Save results status
-  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'success' | 'error'>('idle');
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'success' | 'queued' | 'error'>('idle');
   const [saveError, setSaveError] = useState<string | null>(null);
+  const [saveRetry, setSaveRetry] = useState<RetryAttempt | null>(null);
+  // Saves that failed or happened offline, waiting to be re-sent
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
+  const [showOutbox, setShowOutbox] = useState(false);
+  const [outboxSyncing, setOutboxSyncing] = useState(false);
+  const outboxSyncingRef = useRef(false);
+  const queuedSaveKeyRef = useRef<string | null>(null); // this quiz's save, when it went to the outbox
+  // Grading of subjective answers, run before the result is saved
+  const [evaluationStatus, setEvaluationStatus] = useState<'idle' | 'evaluating' | 'done' | 'error'>('idle');
+  const [evaluationError, setEvaluationError] = useState<string | null>(null);
+  const [evaluations, setEvaluations] = useState<SubjectiveEvaluation[]>([]);
+  // Explanations asked for in the answers review, stored onto the saved result
+  const [explanations, setExplanations] = useState<Record<number, Explanation>>({});
+  const [explanationStatus, setExplanationStatus] = useState<Record<string, 'loading' | 'error'>>({}); // by explanationKey
+  const [savedResultId, setSavedResultId] = useState<string | null>(null);
+  const storedExplanationsRef = useRef(new Set<number>()); // question indices already sent to the saved result
   // Results browsing state
   const [showResultsPanel, setShowResultsPanel] = useState(false);
   const [resultsLoading, setResultsLoading] = useState(false);
   const [resultsError, setResultsError] = useState<string | null>(null);
+  const [resultsRetry, setResultsRetry] = useState<RetryAttempt | null>(null);
   const [results, setResults] = useState<ResultsListItem[] | null>(null);
   const [resultsPage, setResultsPage] = useState(0);
   const [resultsLimit, setResultsLimit] = useState(5);
   const [resultsHasMore, setResultsHasMore] = useState(false);
+  const [resultsTruncated, setResultsTruncated] = useState(false); // searched the newest results only
+  const [resultsQuery, setResultsQuery] = useState<ResultsQuery>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(RESULTS_QUERY_PREF_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  });
   const [selectedResult, setSelectedResult] = useState<ResultDetail | null>(null);
   const [resultDetailPage, setResultDetailPage] = useState<ResultDetail | null>(null);
+  // Progress dashboard, built from every saved result
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [analyticsReport, setAnalyticsReport] = useState<AnalyticsReport | null>(null);
+  const [analyticsProgress, setAnalyticsProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const [analyticsError, setAnalyticsError] = useState<string | null>(null);
+  const analyticsLoadRef = useRef<AbortController | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  // Earlier attempts of a retried result, oldest first
+  const [attemptHistory, setAttemptHistory] = useState<{ resultId: string; attempts: ResultDetail[] } | null>(null);
   const [effectiveTopic, setEffectiveTopic] = useState<string>("Miscellaneous");
   // Supabase auth state
   const [supabaseClient] = useState(() => getSupabaseClient());
@@ -108,6 +248,62 @@ export default function App() {
   const [currentQuestionElapsedMs, setCurrentQuestionElapsedMs] = useState<number>(0);
   const [perQuestionDurationsMs, setPerQuestionDurationsMs] = useState<Record<number, number>>({});
 
+  // 6. Timed mode. timeLimitMinutes is null until the user edits it, so the
+  // suggestion follows the exam and question count.
+  const [timedMode, setTimedMode] = useState(false);
+  const [timeLimitMinutes, setTimeLimitMinutes] = useState<number | null>(null);
+  const [activeTimeLimitMs, setActiveTimeLimitMs] = useState<number | null>(null); // for the quiz being played
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+  const [submission, setSubmission] = useState<SubmissionTiming | null>(null);
+
+  // Tab switches during the quiz. awayRef is set while the tab is hidden.
+  const [awayTimingMode, setAwayTimingMode] = useState<AwayTimingMode>(
+    () => (localStorage.getItem(AWAY_TIMING_PREF_KEY) === 'flag' ? 'flag' : 'pause'),
+  );
+  const [focusLog, setFocusLog] = useState<FocusLog>({});
+  const awayRef = useRef<{ since: number; index: number } | null>(null);
+  // When the tab was hidden in pause mode; both clocks stand still until it's back
+  const [pausedSince, setPausedSince] = useState<number | null>(null);
+  const [confidence, setConfidence] = useState<ConfidenceMap>({});
+
+  // 7. Unfinished quiz saved for the signed-in user, offered on the setup screen
+  const [resumableSession, setResumableSession] = useState<StoredQuizSession | null>(null);
+
+  // 8. Question bank, and which bank item each question is when revising
+  const [bankItems, setBankItems] = useState<BankItem[]>([]);
+  const [revisionIds, setRevisionIds] = useState<string[] | null>(null);
+  // Set when the active quiz re-attempts a past result's mistakes
+  const [retryLink, setRetryLink] = useState<RetryLink | null>(null);
+
+  // 9. Hand-edited question sets. The editor works on a copy; saving writes a
+  // template and, for the ready screen, replaces the prepared questions.
+  const [templates, setTemplates] = useState<QuizTemplate[]>([]);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [editorTarget, setEditorTarget] = useState<{
+    templateId?: string;
+    name: string;
+    exam: string;
+    quiz: ApiResponseData | null;
+    forReadyScreen: boolean;
+  } | null>(null);
+
+  // Per-question view of the active quiz, used for rendering and scoring
+  const quizItems = questions ? getQuizItems(questions) : [];
+  const gradableCount = quizItems.filter((item) => item.type !== 'Subjective').length;
+  // Every subjective question counts toward the maximum, so skipping one can't raise the percentage
+  const writtenMaxMarks = (quizItems.length - gradableCount) * DEFAULT_SUBJECTIVE_MAX_MARKS;
+  const markingScheme = markingSchemeId === 'auto' ? markingSchemeFor(quizConfig.exam) : MARKING_SCHEMES[markingSchemeId];
+  const scoreSummary = computeScoreSummary(quizItems, userAnswers, markingScheme);
+
+  const examProfile = findExamProfile(quizConfig.exam);
+  const userId = session?.user?.id;
+  const bankIds = new Set(bankItems.map((b) => b.id));
+  const revisionDueCount = dueBankItems(bankItems).length;
+  const suggestedTimeLimitMinutes = Math.max(
+    1,
+    Math.ceil((quizConfig.q_no * (examProfile?.secondsPerQuestion ?? DEFAULT_SECONDS_PER_QUESTION)) / 60),
+  );
+
   // --- Event Handlers ---
 
   /**
@@ -118,11 +314,27 @@ export default function App() {
   ) => {
     const { name, value, type } = e.target;
     
-    const nextConfig = {
+    let nextConfig = {
       ...quizConfig,
       [name]: type === 'number' ? parseInt(value, 10) : value,
     } as typeof quizConfig;
+    // Picking a known exam prefills its defaults; custom exams change nothing else
+    const profile = name === 'exam' ? findExamProfile(value) : undefined;
+    if (profile && profile !== findExamProfile(quizConfig.exam)) nextConfig = applyExamProfile(nextConfig, profile);
+    // A mixed paper's length is the sum of its per-type counts
+    if (nextConfig.questionType === 'Mixed') nextConfig.q_no = mixTotal(nextConfig.mix);
+
+    setQuizConfig(nextConfig);
+    validateAndSetErrors(nextConfig);
+  };
 
+  /**
+   * Updates how many questions of one type a Mixed quiz should have
+   */
+  const handleMixChange = (itemType: ItemType, value: string) => {
+    const count = Math.max(0, parseInt(value, 10) || 0);
+    const mix = { ...quizConfig.mix, [itemType]: count };
+    const nextConfig = { ...quizConfig, mix, q_no: mixTotal(mix) };
     setQuizConfig(nextConfig);
     validateAndSetErrors(nextConfig);
   };
@@ -137,18 +349,24 @@ export default function App() {
   };
 
   /**
-   * Fetches the quiz questions from the backend API
+   * Fetches the quiz questions from the backend API.
+   * Streams questions in when the backend supports it, otherwise falls back
+   * to the one-shot JSON response.
    */
-  const handleCreateQuiz = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleCreateQuiz = async (e?: React.FormEvent) => {
+    e?.preventDefault();
     setIsCreating(true);
     setError(null);
+    setErrorKind(null);
     setQuestions(null);
     setPreparedQuestions(null);
     setUserAnswers({});
     setCurrentQuestionIndex(0);
     setIsSubmitted(false);
     setTotalTimeMs(null);
+    setGenerationProgress(null);
+    setGenerationWarning(null);
+    setGenerationRetry(null);
 
     // Validate before calling API
     const hasErrors = validateAndSetErrors(quizConfig);
@@ -158,61 +376,240 @@ export default function App() {
     }
 
     // Do NOT start timers yet; start after user clicks Start Quiz
+    const generation = { id: Date.now(), started: false, controller: new AbortController() };
+    generationRef.current = generation;
+    const isCurrent = () => generationRef.current?.id === generation.id;
+    // Publishes questions to whichever slot the user is looking at. Submitting
+    // abandons the generation, so nothing lands after the quiz was scored.
+    const publish = (data: ApiResponseData) => {
+      if (!isCurrent()) return;
+      if (generation.started) setQuestions(data);
+      else setPreparedQuestions(data);
+    };
+    let received = 0;
+
+    // A matching set generated in the background can be used straight away
+    const prefetched = prefetchCacheRef.current.take(prefetchKey);
+    if (prefetched) {
+      setEffectiveTopic(resolveTopic(quizConfig));
+      setPrefetchStatus('idle');
+      publish(prefetched);
+      setIsCreating(false);
+      return;
+    }
 
     try {
       // Retrieve access token for backend auth middleware
-      let accessToken: string | undefined = session?.access_token as unknown as string | undefined;
-      if (!accessToken && supabaseClient) {
-        const { data } = await supabaseClient.auth.getSession();
-        accessToken = data.session?.access_token;
-      }
-
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-      };
-      if (accessToken) {
-        headers['Authorization'] = `Bearer ${accessToken}`;
-      }
+      const accessToken = await getAccessToken();
 
       const resolvedTopic = resolveTopic(quizConfig);
       setEffectiveTopic(resolvedTopic);
-      const response = await fetch(`${API_BASE_URL}/generate-questions`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({ ...quizConfig, topic: resolvedTopic }),
+      const data = await generateQuestions({
+        apiBaseUrl: API_BASE_URL,
+        accessToken,
+        config: { ...quizConfig, topic: resolvedTopic },
+        signal: generation.controller.signal,
+        onRetry: (info) => {
+          if (isCurrent()) setGenerationRetry(info);
+        },
+        onProgress: (progress) => {
+          if (!isCurrent()) return;
+          setGenerationRetry(null);
+          received = progress.data?.QuestionArray.length ?? 0;
+          if (progress.data && received > 0) publish(progress.data);
+          setGenerationProgress({ received, total: progress.total });
+        },
       });
-
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status} ${response.statusText}`);
-      }
-
-      const result: FullApiResponse = await response.json();
-
-      if (result.status === 'success') {
-        setPreparedQuestions(result.data);
+      if (!isCurrent()) return;
+      publish(data);
+    } catch (err) {
+      if (!isCurrent()) return;
+      const message = err instanceof Error ? err.message : 'An unknown error occurred.';
+      const plural = received === 1 ? '' : 's';
+      if (isAbortError(err)) {
+        // Cancelled by the user; only reachable once the quiz has already started
+        if (received > 0) setGenerationWarning(`Generation cancelled. Continuing with ${received} question${plural}.`);
+      } else if (received > 0) {
+        // Keep the questions we already have instead of throwing the whole set away
+        setGenerationWarning(`Generation stopped early (${message}). Continuing with ${received} question${plural}.`);
       } else {
-        // Handle cases where the server returns a 200 OK but a business logic error
-        // @ts-expect-error - 'data' might be an error object from the backend
-        throw new Error(result.data?.message || 'Failed to parse quiz data');
+        setError(message);
+        setErrorKind(err instanceof QuizApiError ? err.kind : null);
       }
-
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
     } finally {
-      setIsCreating(false);
+      if (isCurrent()) {
+        setIsCreating(false);
+        setGenerationProgress(null);
+        setGenerationRetry(null);
+      }
     }
   };
 
   const beginPreparedQuiz = () => {
     if (!preparedQuestions) return;
-    setQuestions(preparedQuestions);
+    if (generationRef.current) generationRef.current.started = true;
+    startQuiz(preparedQuestions);
+  };
+
+  /**
+   * Starts a quiz from the prefetched set for the current config, straight
+   * from the results screen.
+   */
+  const beginPrefetchedQuiz = () => {
+    const prefetched = prefetchCacheRef.current.take(prefetchKey);
+    if (!prefetched) return;
+    abandonGeneration();
+    setPrefetchStatus('idle');
+    setShowAnswers(false);
+    setTotalTimeMs(null);
+    setSaveStatus('idle');
+    setEffectiveTopic(resolveTopic(quizConfig));
+    startQuiz(prefetched);
+  };
+
+  /**
+   * Restores a saved quiz. The clocks restart from the saved elapsed time, so
+   * time spent away from the page isn't counted.
+   */
+  const resumeQuiz = (stored: StoredQuizSession) => {
+    const now = Date.now();
+    abandonGeneration();
+    setShowAnswers(false);
+    setTotalTimeMs(null);
+    setSaveStatus('idle');
+    setQuizConfig(stored.config);
+    setMarkingSchemeId(stored.markingSchemeId);
+    setEffectiveTopic(stored.effectiveTopic);
+    startQuiz(stored.questions);
+    // Overrides the fresh-quiz defaults set by startQuiz
+    setUserAnswers(stored.userAnswers);
+    setCurrentQuestionIndex(stored.currentQuestionIndex);
+    setQuizStartTime(now - stored.elapsedMs);
+    setPerQuestionDurationsMs(stored.perQuestionDurationsMs);
+    setActiveTimeLimitMs(stored.timeLimitMs);
+    setRemainingMs(stored.timeLimitMs === null ? null : Math.max(0, stored.timeLimitMs - stored.elapsedMs));
+    setVisitedQuestions(new Set(stored.visited));
+    setMarkedQuestions(new Set(stored.marked));
+    setFocusLog(stored.focusLog ?? {});
+    setConfidence(stored.confidence ?? {});
+    setRevisionIds(stored.revisionIds ?? null);
+    setRetryLink(stored.retryOf ?? null);
+    setResumableSession(null);
+  };
+
+  /**
+   * Starts a quiz of the bank questions due today. Answers reschedule each
+   * question when the quiz is submitted.
+   */
+  const startRevision = () => {
+    const due = dueBankItems(bankItems).slice(0, MAX_REVISION_QUESTIONS);
+    // Starting over a running quiz would drop it and overwrite its resumable snapshot
+    if (due.length === 0 || (questions && !isSubmitted)) return;
+    abandonGeneration();
+    setShowResultsPanel(false);
+    setResultDetailPage(null);
+    setShowAnswers(false);
+    setTotalTimeMs(null);
+    setSaveStatus('idle');
+    setEffectiveTopic(REVISION_TOPIC);
+    startQuiz(itemsToMixedQuiz(due.map((b) => b.item)));
+    setRevisionIds(due.map((b) => b.id));
+  };
+
+  /**
+   * Starts a quiz of the questions a saved result got wrong or skipped,
+   * straight from its stored questions. The new result links back to it.
+   */
+  const retryMistakes = (detail: ResultDetail) => {
+    const retry = buildRetryQuiz(detail);
+    // The saved-result page can open over a quiz in progress; don't replace it
+    if (!retry || (questions && !isSubmitted)) return;
+    const { exam, topic } = splitSavedTopic(detail.topic);
+    abandonGeneration();
+    setResultDetailPage(null);
+    setShowResultsPanel(false);
+    setShowAnswers(false);
+    setTotalTimeMs(null);
+    setSaveStatus('idle');
+    setQuizConfig({ ...quizConfig, exam });
+    setMarkingSchemeId(detail.solutions?.markingScheme?.id ?? 'auto');
+    setEffectiveTopic(topic);
+    startQuiz(retry.quiz);
+    setRetryLink(retry.link);
+  };
+
+  const toggleBankItem = (entry: Omit<NewBankItem, 'source'>) => {
+    if (!userId) return;
+    const id = bankItemId(entry.item);
+    setBankItems(bankIds.has(id) ? removeFromBank(userId, id) : addToBank(userId, [{ ...entry, source: 'manual' }]));
+  };
+
+  const discardSavedQuiz = () => {
+    if (userId) clearQuizSession(userId);
+    setResumableSession(null);
+  };
+
+  const startQuiz = (data: ApiResponseData) => {
+    const now = Date.now();
+    const limitMs = timedMode ? (timeLimitMinutes ?? suggestedTimeLimitMinutes) * 60_000 : null;
+    setQuestions(data);
     setPreparedQuestions(null);
-    setQuizStartTime(Date.now());
+    setQuizStartTime(now);
+    setQuestionStartTime(now);
+    setActiveTimeLimitMs(limitMs);
+    setRemainingMs(limitMs);
+    setSubmission(null);
+    setVisitedQuestions(new Set([0]));
+    setMarkedQuestions(new Set());
+    setShowSubmitSummary(false);
+    setFocusLog({});
+    setConfidence({});
+    awayRef.current = null;
+    setPausedSince(null);
     setCurrentQuestionElapsedMs(0);
     setPerQuestionDurationsMs({});
     setCurrentQuestionIndex(0);
     setUserAnswers({});
     setIsSubmitted(false);
+    setEvaluations([]);
+    setEvaluationStatus('idle');
+    setEvaluationError(null);
+    setExplanations({});
+    setExplanationStatus({});
+    setSavedResultId(null);
+    storedExplanationsRef.current = new Set();
+    queuedSaveKeyRef.current = null;
+    setRevisionIds(null);
+    setRetryLink(null);
+  };
+
+  // Drops any in-flight generation so late-arriving questions are ignored
+  const abandonGeneration = () => {
+    generationRef.current?.controller.abort();
+    generationRef.current = null;
+    setIsCreating(false);
+    setGenerationProgress(null);
+    setGenerationWarning(null);
+    setGenerationRetry(null);
+  };
+
+  /**
+   * Cancel button on the "Creating your quiz…" toast. Before Start this
+   * discards the quiz; once playing it stops generation and keeps what arrived.
+   */
+  const cancelGeneration = () => {
+    const generation = generationRef.current;
+    if (!generation) return;
+    if (generation.started) {
+      generation.controller.abort();
+      return;
+    }
+    abandonGeneration();
+    setPreparedQuestions(null);
+  };
+
+  const handleConfidenceChange = (level: Confidence) => {
+    setConfidence(prev => ({ ...prev, [currentQuestionIndex]: level }));
   };
 
   /**
@@ -226,73 +623,393 @@ export default function App() {
   };
 
   /**
-   * Navigates to the next question
+   * Jumps to any question that has arrived, crediting the time spent on the
+   * current one
    */
-  const handleNextQuestion = () => {
-    if (!questions) return;
-    
-    const totalQuestions = questions.questionType === 'MCQ'
-      ? questions.QuestionArray.length
-      : questions.QuestionArray.length;
-
-    if (currentQuestionIndex < totalQuestions - 1) {
-      // Persist elapsed time for current question
-      const elapsed = (questionStartTime ? Date.now() - questionStartTime : 0);
-      setPerQuestionDurationsMs(prev => ({
-        ...prev,
-        [currentQuestionIndex]: (prev[currentQuestionIndex] || 0) + elapsed,
-      }));
-      setCurrentQuestionIndex(prevIndex => prevIndex + 1);
-      setQuestionStartTime(Date.now());
-      setCurrentQuestionElapsedMs(0);
-    }
+  const goToQuestion = (index: number) => {
+    if (!questions || index === currentQuestionIndex || index < 0 || index >= questions.QuestionArray.length) return;
+    // Persist elapsed time for current question
+    const elapsed = (questionStartTime ? Date.now() - questionStartTime : 0);
+    setPerQuestionDurationsMs(prev => ({
+      ...prev,
+      [currentQuestionIndex]: (prev[currentQuestionIndex] || 0) + elapsed,
+    }));
+    setCurrentQuestionIndex(index);
+    setVisitedQuestions(prev => new Set(prev).add(index));
+    setQuestionStartTime(Date.now());
+    setCurrentQuestionElapsedMs(0);
   };
 
+  /**
+   * Navigates to the next question
+   */
+  const handleNextQuestion = () => goToQuestion(currentQuestionIndex + 1);
+
   /**
    * Navigates to the previous question
    */
-  const handlePrevQuestion = () => {
-    if (currentQuestionIndex > 0) {
-      // Persist elapsed time for current question
-      const elapsed = (questionStartTime ? Date.now() - questionStartTime : 0);
-      setPerQuestionDurationsMs(prev => ({
-        ...prev,
-        [currentQuestionIndex]: (prev[currentQuestionIndex] || 0) + elapsed,
-      }));
-      setCurrentQuestionIndex(prevIndex => prevIndex - 1);
-      setQuestionStartTime(Date.now());
-      setCurrentQuestionElapsedMs(0);
-    }
+  const handlePrevQuestion = () => goToQuestion(currentQuestionIndex - 1);
+
+  const toggleMarkForReview = () => {
+    setMarkedQuestions(prev => {
+      const next = new Set(prev);
+      if (next.has(currentQuestionIndex)) next.delete(currentQuestionIndex);
+      else next.add(currentQuestionIndex);
+      return next;
+    });
+  };
+
+  const questionStatus = (index: number): QuestionStatus => {
+    const answered = isAttempted(userAnswers[index]);
+    if (markedQuestions.has(index)) return answered ? 'answered-marked' : 'marked';
+    if (answered) return 'answered';
+    return visitedQuestions.has(index) || index === currentQuestionIndex ? 'visited' : 'not-visited';
   };
 
   /**
-   * Submits the quiz and shows the results
+   * Submits the quiz and shows the results. Timed quizzes also submit
+   * themselves when the countdown reaches zero.
    */
-  const handleSubmitQuiz = () => {
+  const handleSubmitQuiz = (submittedBy: SubmissionTiming['submittedBy'] = 'manual') => {
+    if (isSubmitted) return;
+    setShowSubmitSummary(false);
+    if (userId) clearQuizSession(userId);
+    // Time can run out while questions are still streaming in: stop the
+    // generation so the quiz scored, saved and reviewed is the one shown now
+    if (generationRef.current?.started) {
+      const arrived = questions?.QuestionArray.length ?? 0;
+      const expected = generationProgress?.total ?? 0;
+      abandonGeneration();
+      if (expected > arrived) {
+        setGenerationWarning(`Only ${arrived} of ${expected} questions had arrived, so the quiz was scored on those ${arrived}.`);
+      }
+    }
+    // A timed quiz can run out while the tab is hidden; close that absence
+    let finalFocusLog = focusLog;
+    if (awayRef.current) {
+      const away = awayRef.current;
+      awayRef.current = null;
+      setPausedSince(null);
+      finalFocusLog = appendFocusLoss(focusLog, away.index, { leftAt: away.since, durationMs: Date.now() - away.since });
+      setFocusLog(finalFocusLog);
+    }
     // Persist time for the last viewed question
+    let finalDurationsMs = perQuestionDurationsMs;
     if (questionStartTime !== null) {
       const elapsed = Date.now() - questionStartTime;
-      setPerQuestionDurationsMs(prev => ({
-        ...prev,
-        [currentQuestionIndex]: (prev[currentQuestionIndex] || 0) + elapsed,
-      }));
+      finalDurationsMs = {
+        ...perQuestionDurationsMs,
+        [currentQuestionIndex]: (perQuestionDurationsMs[currentQuestionIndex] || 0) + elapsed,
+      };
+      setPerQuestionDurationsMs(finalDurationsMs);
     }
     setIsSubmitted(true);
     const total = quizStartTime ? Date.now() - quizStartTime : 0;
     setTotalTimeMs(total);
+    const timing: SubmissionTiming = {
+      limitMs: activeTimeLimitMs,
+      remainingMs: activeTimeLimitMs === null ? null : Math.max(0, activeTimeLimitMs - total),
+      submittedBy,
+    };
+    setSubmission(timing);
     // In a real app, you might calculate the score here, especially for MCQs
     console.log("Quiz Submitted! Answers:", userAnswers);
-    void saveResults(total);
+    void saveResults(total, timing, { mode: awayTimingMode, log: finalFocusLog }, finalDurationsMs);
+
+    // Wrong MCQ answers are banked for revision; revision quizzes reschedule instead
+    if (userId && !revisionIds) {
+      const missed = quizItems.flatMap((item, index): NewBankItem[] =>
+        item.type === 'MCQ' && isAttempted(userAnswers[index]) && scoreItem(item, userAnswers[index]) === false
+          ? [{ item, exam: quizConfig.exam, topic: effectiveTopic, source: 'missed' }]
+          : [],
+      );
+      if (missed.length > 0) setBankItems(addToBank(userId, missed));
+    }
+  };
+
+  /**
+   * Keyboard shortcut for picking option `index` (0-based) of the current
+   * question. Multi-select options toggle.
+   */
+  const selectOptionByIndex = (index: number) => {
+    const item = quizItems[currentQuestionIndex];
+    if (!item) return;
+    switch (item.type) {
+      case 'MCQ':
+        if (item.question.Options[index]) handleAnswerChange(item.question.Options[index]);
+        break;
+      case 'AssertionReason':
+        if (ASSERTION_REASON_OPTIONS[index]) handleAnswerChange(ASSERTION_REASON_OPTIONS[index]);
+        break;
+      case 'MultiSelect': {
+        const option = item.question.Options[index];
+        if (!option) break;
+        const letter = optionLetter(option);
+        const selected = decodeMultiSelect(userAnswers[currentQuestionIndex]);
+        handleAnswerChange(encodeMultiSelect(selected.includes(letter) ? selected.filter((l) => l !== letter) : [...selected, letter]));
+        break;
+      }
+      case 'TrueFalse':
+        if (index < 2) handleAnswerChange(index === 0 ? 'True' : 'False');
+        break;
+    }
+  };
+
+  // Opens the pre-submit summary once every streamed question has arrived
+  const requestSubmit = () => {
+    const pending = (generationProgress?.total ?? 0) > (questions?.QuestionArray.length ?? 0);
+    if (!pending) setShowSubmitSummary(true);
+  };
+
+  // The navbar can open these over a running quiz, or replace it with a saved result
+  const navDialogOpen = showResultsPanel || !!resultDetailPage || showOutbox || showAnalytics
+    || showImport || showTemplates || !!editorTarget;
+
+  // Answering and navigation keys are ignored while a dialog covers the question
+  const unlessDialogOpen = (handler: (key: string) => void) => (key: string) => {
+    if (!showSubmitSummary && !showShortcuts && !navDialogOpen) handler(key);
+  };
+
+  const quizShortcuts: ShortcutBinding[] = [
+    {
+      keys: ['1', '2', '3', '4', 'a', 'b', 'c', 'd'],
+      display: '1–4 / A–D',
+      description: 'Choose an option (toggles for multi-select)',
+      handler: unlessDialogOpen((key) => selectOptionByIndex(/\d/.test(key) ? Number(key) - 1 : key.charCodeAt(0) - 97)),
+    },
+    {
+      keys: ['t', 'f'],
+      display: 'T / F',
+      description: 'Answer True or False',
+      handler: unlessDialogOpen((key) => {
+        if (quizItems[currentQuestionIndex]?.type === 'TrueFalse') handleAnswerChange(key === 't' ? 'True' : 'False');
+      }),
+    },
+    { keys: ['ArrowRight', 'j'], display: '→ / J', description: 'Next question', handler: unlessDialogOpen(handleNextQuestion) },
+    { keys: ['ArrowLeft', 'k'], display: '← / K', description: 'Previous question', handler: unlessDialogOpen(handlePrevQuestion) },
+    { keys: ['m'], display: 'M', description: 'Mark or unmark for review', handler: unlessDialogOpen(toggleMarkForReview) },
+    {
+      keys: ['g', 'u', 's'],
+      display: 'G / U / S',
+      description: 'Rate confidence: guess, unsure or sure',
+      handler: unlessDialogOpen((key) => {
+        const level = CONFIDENCE_LEVELS.find((l) => l.startsWith(key));
+        if (level && quizItems[currentQuestionIndex]?.type !== 'Subjective') handleConfidenceChange(level);
+      }),
+    },
+    {
+      keys: ['Ctrl+Enter'],
+      display: 'Ctrl + Enter',
+      description: 'Submit (asks for confirmation; press again to confirm)',
+      handler: () => {
+        if (showShortcuts || navDialogOpen) return;
+        if (showSubmitSummary) handleSubmitQuiz();
+        else requestSubmit();
+      },
+    },
+    {
+      keys: ['?'],
+      display: '?',
+      description: 'Show or hide this list',
+      handler: () => {
+        if (!navDialogOpen) setShowShortcuts((open) => !open);
+      },
+    },
+    {
+      keys: ['Escape'],
+      display: 'Esc',
+      description: 'Close dialogs',
+      handler: () => {
+        setShowShortcuts(false);
+        setShowSubmitSummary(false);
+      },
+    },
+  ];
+  useKeyboardShortcuts(quizShortcuts, !!questions && !isSubmitted);
+
+  const prefetchKey = prefetchKeyFor({ ...quizConfig, topic: resolveTopic(quizConfig) });
+
+  // Background prefetch: once results are showing, quietly generate the next
+  // set for the same config. Anything prefetched for another config is dropped.
+  useEffect(() => {
+    const cache = prefetchCacheRef.current;
+    const inFlight = prefetchInFlightRef.current;
+    if (!prefetchEnabled) {
+      inFlight?.controller.abort();
+      prefetchInFlightRef.current = null;
+      cache.clear();
+      setPrefetchStatus('idle');
+      return;
+    }
+    cache.retainOnly(prefetchKey);
+    if (!cache.has(prefetchKey)) setPrefetchStatus((status) => (status === 'ready' ? 'idle' : status));
+    if (inFlight && inFlight.key !== prefetchKey) {
+      inFlight.controller.abort();
+      prefetchInFlightRef.current = null;
+    }
+    if (!isSubmitted || prefetchInFlightRef.current) return;
+    if (cache.has(prefetchKey)) {
+      setPrefetchStatus('ready');
+      return;
+    }
+
+    const controller = new AbortController();
+    prefetchInFlightRef.current = { key: prefetchKey, controller };
+    setPrefetchStatus('loading');
+    generateQuestions({
+      apiBaseUrl: API_BASE_URL,
+      accessToken: session?.access_token,
+      config: { ...quizConfig, topic: resolveTopic(quizConfig) },
+      signal: controller.signal,
+    })
+      .then((data) => {
+        cache.set(prefetchKey, data);
+        setPrefetchStatus('ready');
+      })
+      .catch((err) => {
+        if (!isAbortError(err)) setPrefetchStatus('error');
+      })
+      .finally(() => {
+        if (prefetchInFlightRef.current?.controller === controller) prefetchInFlightRef.current = null;
+      });
+    // Config edits that leave prefetchKey unchanged find the request in flight and stop early
+  }, [prefetchEnabled, prefetchKey, isSubmitted, session, quizConfig]);
+
+  const changeAwayTimingMode = (mode: AwayTimingMode) => {
+    setAwayTimingMode(mode);
+    localStorage.setItem(AWAY_TIMING_PREF_KEY, mode);
+  };
+
+  const togglePrefetch = (enabled: boolean) => {
+    setPrefetchEnabled(enabled);
+    if (enabled) localStorage.setItem(PREFETCH_PREF_KEY, '1');
+    else localStorage.removeItem(PREFETCH_PREF_KEY);
+  };
+
+  // Log time spent in other tabs. In pause mode both clocks are pushed
+  // forward by the absence so it isn't counted.
+  useEffect(() => {
+    if (!questions || isSubmitted) return;
+    const onVisibilityChange = () => {
+      if (document.hidden) {
+        awayRef.current = { since: Date.now(), index: currentQuestionIndex };
+        if (awayTimingMode === 'pause') setPausedSince(awayRef.current.since);
+        return;
+      }
+      const away = awayRef.current;
+      if (!away) return;
+      awayRef.current = null;
+      const durationMs = Date.now() - away.since;
+      setFocusLog(prev => appendFocusLoss(prev, away.index, { leftAt: away.since, durationMs }));
+      setPausedSince(null);
+      if (awayTimingMode === 'pause') {
+        setQuestionStartTime(start => (start === null ? start : start + durationMs));
+        setQuizStartTime(start => (start === null ? start : start + durationMs));
+      }
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, [questions, isSubmitted, currentQuestionIndex, awayTimingMode]);
+
+  // Countdown for timed quizzes
+  useEffect(() => {
+    if (!questions || isSubmitted || quizStartTime === null || activeTimeLimitMs === null) return;
+    const deadline = quizStartTime + activeTimeLimitMs;
+    // Paused: hold the time left when the tab was hidden
+    if (pausedSince !== null) {
+      setRemainingMs(Math.max(0, deadline - pausedSince));
+      return;
+    }
+    const tick = () => setRemainingMs(Math.max(0, deadline - Date.now()));
+    tick();
+    const id = setInterval(tick, 1000);
+    return () => clearInterval(id);
+  }, [questions, isSubmitted, quizStartTime, activeTimeLimitMs, pausedSince]);
+
+  // handleSubmitQuiz is recreated every render; effects call the latest one
+  // through this ref so they only re-run for their own inputs
+  const handleSubmitQuizRef = useRef(handleSubmitQuiz);
+  useEffect(() => {
+    handleSubmitQuizRef.current = handleSubmitQuiz;
+  });
+
+  // Time's up: submit whatever has been answered
+  useEffect(() => {
+    if (remainingMs === 0 && questions && !isSubmitted && pausedSince === null) handleSubmitQuizRef.current('timeout');
+  }, [remainingMs, questions, isSubmitted, pausedSince]);
+
+  // Keep a snapshot of the quiz in progress so it survives a refresh
+  const persistSession = () => {
+    if (!userId || !questions || isSubmitted || quizStartTime === null) return;
+    // A paused clock stopped when the tab was hidden
+    const now = awayRef.current && awayTimingMode === 'pause' ? awayRef.current.since : Date.now();
+    saveQuizSession(userId, {
+      config: quizConfig,
+      effectiveTopic,
+      markingSchemeId,
+      questions,
+      userAnswers,
+      currentQuestionIndex,
+      elapsedMs: now - quizStartTime,
+      perQuestionDurationsMs: {
+        ...perQuestionDurationsMs,
+        [currentQuestionIndex]: (perQuestionDurationsMs[currentQuestionIndex] || 0) + (questionStartTime ? now - questionStartTime : 0),
+      },
+      timeLimitMs: activeTimeLimitMs,
+      visited: [...visitedQuestions],
+      marked: [...markedQuestions],
+      focusLog,
+      confidence,
+      ...(revisionIds && { revisionIds }),
+      ...(retryLink && { retryOf: retryLink }),
+    });
   };
+  const persistSessionRef = useRef(persistSession);
+  useEffect(() => {
+    persistSessionRef.current = persistSession;
+  });
+
+  // Saved when the quiz state changes, not on every clock tick; the time
+  // played is brought up to date when the page is hidden or closed
+  useEffect(() => {
+    persistSessionRef.current();
+  }, [
+    userId, questions, isSubmitted, quizStartTime, questionStartTime, userAnswers, currentQuestionIndex,
+    perQuestionDurationsMs, visitedQuestions, markedQuestions, focusLog, confidence, revisionIds, retryLink,
+  ]);
+
+  useEffect(() => {
+    const persist = () => persistSessionRef.current();
+    const onVisibilityChange = () => {
+      if (document.hidden) persist();
+    };
+    window.addEventListener('pagehide', persist);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', persist);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, []);
+
+  useEffect(() => {
+    setBankItems(userId ? listBank(userId) : []);
+    setTemplates(userId ? listTemplates(userId) : []);
+  }, [userId]);
+
+  // Offer to resume whenever no quiz is active
+  useEffect(() => {
+    setResumableSession(userId && !questions ? loadQuizSession(userId) : null);
+  }, [userId, questions]);
+
 
   // Live ticker for the per-question timer
   useEffect(() => {
-    if (!questions || isSubmitted || questionStartTime === null) return;
+    if (!questions || isSubmitted || questionStartTime === null || pausedSince !== null) return;
     const id = setInterval(() => {
       setCurrentQuestionElapsedMs(Date.now() - (questionStartTime || Date.now()));
     }, 1000);
     return () => clearInterval(id);
-  }, [questions, isSubmitted, questionStartTime]);
+  }, [questions, isSubmitted, questionStartTime, pausedSince]);
 
   // Initialize Supabase session + auth listener
   useEffect(() => {
@@ -306,11 +1023,19 @@ export default function App() {
     return () => subscription?.unsubscribe();
   }, [supabaseClient]);
 
-  const saveResults = async (timeMsToSend: number) => {
+  const saveResults = async (
+    timeMsToSend: number,
+    timing: SubmissionTiming,
+    focus: FocusReport,
+    durationsMs: Record<number, number>,
+  ) => {
+    const idempotencyKey = crypto.randomUUID();
+    let payload: SaveResultsPayload | undefined;
+    let sent = false;
     try {
       if (!questions) return;
-      setSaveStatus('saving');
       setSaveError(null);
+      setSaveRetry(null);
 
       // token
       let accessToken: string | undefined = (session as any)?.access_token;
@@ -320,26 +1045,232 @@ export default function App() {
       }
 
       const topicForSave = `${quizConfig.exam} : ${effectiveTopic || resolveTopic(quizConfig)}`;
-      await saveResultsToBackend({
-        resultsUrl: RESULTS_URL,
-        accessToken,
-        payload: {
-          topic: topicForSave,
-          timeMs: timeMsToSend,
-          questions,
-          solutions: {
-            userAnswers,
-            score: calculateScore(),
+
+      // Grade answered subjective questions first so the marks are saved with
+      // the result. If grading fails the result is still saved without them.
+      const subjectiveAnswers = quizItems.flatMap((item, index) =>
+        item.type === 'Subjective' && isAttempted(userAnswers[index])
+          ? [{ index, question: getItemText(item), answer: userAnswers[index], maxMarks: DEFAULT_SUBJECTIVE_MAX_MARKS }]
+          : [],
+      );
+      let graded: SubjectiveEvaluation[] = [];
+      if (subjectiveAnswers.length > 0) {
+        setEvaluationStatus('evaluating');
+        setEvaluationError(null);
+        try {
+          graded = await evaluateSubjectiveAnswers({
+            apiBaseUrl: API_BASE_URL,
+            answers: subjectiveAnswers,
+            exam: quizConfig.exam,
+            topic: effectiveTopic || resolveTopic(quizConfig),
+            language: quizConfig.language,
+            accessToken,
+          });
+          setEvaluations(graded);
+          setEvaluationStatus('done');
+        } catch (err) {
+          setEvaluationStatus('error');
+          setEvaluationError(err instanceof Error ? err.message : 'Failed to evaluate answers');
+        }
+      }
+
+      if (revisionIds) rescheduleRevision(graded);
+
+      payload = {
+        topic: topicForSave,
+        timeMs: timeMsToSend,
+        questions,
+        solutions: {
+          userAnswers,
+          score: scoreSummary.net + sumMarks(graded),
+          maxScore: scoreSummary.max + writtenMaxMarks,
+          ...(writtenMaxMarks > 0 && { written: { marks: sumMarks(graded), max: writtenMaxMarks } }),
+          ...(graded.length > 0 && { evaluations: graded }),
+          summary: scoreSummary,
+          markingScheme,
+          timing,
+          perQuestionMs: durationsMs,
+          focus,
+          confidence,
+          ...(retryLink && { retryOf: retryLink }),
+          settings: {
+            exam: quizConfig.exam,
+            topic: effectiveTopic || resolveTopic(quizConfig),
+            difficulty: quizConfig.difficulty,
+            language: quizConfig.language,
+            questionType: questions.questionType,
           },
         },
+      };
+      if (!navigator.onLine) throw new Error('You are offline');
+
+      setSaveStatus('saving');
+      sent = true;
+      const savedId = await saveResultsToBackend({
+        resultsUrl: RESULTS_URL,
+        accessToken,
+        idempotencyKey,
+        onRetry: setSaveRetry,
+        payload,
       });
+      setSavedResultId(savedId);
       setSaveStatus('success');
     } catch (err) {
-      setSaveStatus('error');
-      setSaveError(err instanceof Error ? err.message : 'Failed to save results');
+      const message = err instanceof Error ? err.message : 'Failed to save results';
+      setSaveError(message);
+      // Keep the attempt: queue it for a later retry instead of dropping it.
+      // An offline save never left the browser, so it isn't an attempt yet
+      if (payload && userId && enqueueResult(userId, { idempotencyKey, payload, attempts: sent ? 1 : 0, lastError: message })) {
+        queuedSaveKeyRef.current = idempotencyKey;
+        setOutboxEntries(listOutbox(userId));
+        setSaveStatus('queued');
+      } else {
+        if (payload && userId) setSaveError(`${message}. It couldn't be kept for a later retry because browser storage is full.`);
+        setSaveStatus('error');
+      }
+    } finally {
+      setSaveRetry(null);
+    }
+  };
+
+  /**
+   * Reschedules the bank items of a submitted revision quiz. Subjective
+   * answers are rated by their evaluation; if grading failed they stay due.
+   */
+  const rescheduleRevision = (graded: SubjectiveEvaluation[]) => {
+    if (!userId || !revisionIds) return;
+    const outcomes = quizItems.flatMap((item, index) => {
+      const id = revisionIds[index];
+      const verdict = scoreItem(item, userAnswers[index]);
+      if (verdict !== null) return [{ id, quality: reviewQuality(verdict ? 1 : 0, confidence[index]) }];
+      const evaluation = graded.find((ev) => ev.index === index);
+      if (evaluation) return [{ id, quality: reviewQuality(evaluation.maxMarks > 0 ? evaluation.marks / evaluation.maxMarks : 0) }];
+      return isAttempted(userAnswers[index]) ? [] : [{ id, quality: reviewQuality(0) }];
+    });
+    setBankItems(recordReviews(userId, outcomes));
+  };
+
+  /**
+   * Re-sends queued saves (or just `only`). Runs on load, when the browser
+   * comes back online, and from the unsynced results panel.
+   */
+  const syncOutbox = async (only?: string) => {
+    if (!userId || outboxSyncingRef.current) return;
+    outboxSyncingRef.current = true;
+    setOutboxSyncing(true);
+    try {
+      const remaining = await flushOutbox({
+        userId,
+        resultsUrl: RESULTS_URL,
+        accessToken: await getAccessToken(),
+        only,
+        // This quiz's save finally landed: its explanations can be attached now
+        onSaved: (key, resultId) => {
+          if (key === queuedSaveKeyRef.current && resultId) setSavedResultId(resultId);
+        },
+      });
+      setOutboxEntries(remaining);
+      const queuedKey = queuedSaveKeyRef.current;
+      if (queuedKey && !remaining.some((e) => e.idempotencyKey === queuedKey)) {
+        queuedSaveKeyRef.current = null;
+        setSaveStatus((status) => (status === 'queued' ? 'success' : status));
+      }
+    } finally {
+      outboxSyncingRef.current = false;
+      setOutboxSyncing(false);
     }
   };
 
+  // syncOutbox is recreated every render; the listener below calls the latest one
+  const syncOutboxRef = useRef(syncOutbox);
+  useEffect(() => {
+    syncOutboxRef.current = syncOutbox;
+  });
+
+  // Retry queued saves on load and whenever connectivity returns
+  useEffect(() => {
+    if (!userId) {
+      setOutboxEntries([]);
+      return;
+    }
+    setOutboxEntries(listOutbox(userId));
+    const sync = () => void syncOutboxRef.current();
+    if (navigator.onLine) sync();
+    window.addEventListener('online', sync);
+    return () => window.removeEventListener('online', sync);
+  }, [userId]);
+
+  /**
+   * Fetches an explanation for one reviewed question. `saved` is the result
+   * being viewed from history; without it the question is from the live quiz.
+   */
+  const explainQuestion = async (index: number, item: QuizItem, userAnswer: string | undefined, saved?: ResultDetail) => {
+    const request = buildExplanationRequest(item, userAnswer);
+    if (!request) return;
+    const key = explanationKey(saved?.id ?? null, index);
+    setExplanationStatus((prev) => ({ ...prev, [key]: 'loading' }));
+    try {
+      const { exam, topic } = saved ? splitSavedTopic(saved.topic) : { exam: quizConfig.exam, topic: effectiveTopic || resolveTopic(quizConfig) };
+      const explanation = await fetchExplanation({
+        apiBaseUrl: API_BASE_URL,
+        request,
+        exam,
+        topic,
+        language: quizConfig.language,
+        accessToken: await getAccessToken(),
+      });
+      setExplanationStatus((prev) => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+      if (saved) {
+        setResultDetailPage((detail) => detail?.id === saved.id
+          ? { ...detail, solutions: { ...detail.solutions, explanations: { ...detail.solutions.explanations, [index]: explanation } } }
+          : detail);
+        void storeExplanations(saved.id, { [index]: explanation });
+      } else {
+        setExplanations((prev) => ({ ...prev, [index]: explanation }));
+      }
+    } catch {
+      setExplanationStatus((prev) => ({ ...prev, [key]: 'error' }));
+    }
+  };
+
+  const storeExplanations = async (resultId: string, added: Record<number, Explanation>) => {
+    const token = await getAccessToken();
+    if (!token) return;
+    try {
+      await saveResultExplanations({ resultsUrl: RESULTS_URL, accessToken: token, id: resultId, explanations: added });
+    } catch {
+      // Not fatal: the explanation stays cached in this browser and is shown from there
+    } finally {
+      // Even a failed request may have reached the backend
+      forgetResultDetail(resultId);
+    }
+  };
+  const storeExplanationsRef = useRef(storeExplanations);
+  useEffect(() => {
+    storeExplanationsRef.current = storeExplanations;
+  });
+
+  // Live-quiz explanations are attached to the saved result once it has an id,
+  // whether they arrive before the save finishes or after
+  useEffect(() => {
+    if (!savedResultId) return;
+    const stored = storedExplanationsRef.current;
+    const added = Object.fromEntries(Object.entries(explanations).filter(([index]) => !stored.has(Number(index))));
+    if (Object.keys(added).length === 0) return;
+    Object.keys(added).forEach((index) => stored.add(Number(index)));
+    void storeExplanationsRef.current(savedResultId, added);
+  }, [savedResultId, explanations]);
+
+  const discardQueuedResult = (idempotencyKey: string) => {
+    if (!userId) return;
+    discardOutboxEntry(userId, idempotencyKey);
+    setOutboxEntries(listOutbox(userId));
+  };
+
   const handleEmailAuth = async () => {
     if (!supabaseClient) return;
     setAuthLoading(true);
@@ -388,6 +1319,7 @@ export default function App() {
         await supabaseClient.auth.signOut();
       }
     } catch { /* no-op */ }
+    abandonGeneration();
     setSession(null);
     setQuestions(null);
     setIsSubmitted(false);
@@ -405,6 +1337,8 @@ export default function App() {
 
   const goHome = () => {
     // Reset transient views and navigate to start screen
+    // A generation that hasn't been started yet keeps running in the background
+    if (generationRef.current?.started) abandonGeneration();
     setShowResultsPanel(false);
     setResultDetailPage(null);
     setError(null);
@@ -415,58 +1349,200 @@ export default function App() {
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  const openResultsPanel = async () => {
-    setShowResultsPanel(true);
-    await loadResultsPage(0, resultsLimit);
+  /**
+   * Takes an imported or hand-written question set to the ready screen, as
+   * if it had just been generated. Its name stands in for the topic.
+   */
+  const prepareCustomQuiz = (data: ApiResponseData, name: string, exam?: string) => {
+    goHome();
+    abandonGeneration();
+    setShowImport(false);
+    setShowTemplates(false);
+    setTotalTimeMs(null);
+    setSaveStatus('idle');
+    if (exam) setQuizConfig({ ...quizConfig, exam });
+    setEffectiveTopic(name);
+    setPreparedQuestions(data);
+  };
+
+  const saveEditedQuiz = (name: string, quiz: ApiResponseData, start: boolean) => {
+    if (!userId || !editorTarget) return;
+    const { saved, templates: updated } = saveTemplate(userId, { id: editorTarget.templateId, name, exam: editorTarget.exam, quiz });
+    setTemplates(updated);
+    setEditorTarget(null);
+    if (editorTarget.forReadyScreen) {
+      setEffectiveTopic(saved.name);
+      setPreparedQuestions(quiz);
+    } else if (start) {
+      prepareCustomQuiz(saved.quiz, saved.name, saved.exam);
+    } else {
+      setShowTemplates(true);
+    }
   };
 
-  const loadResultsPage = async (page: number, limit: number) => {
+  const editTemplate = (template: QuizTemplate) => {
+    setShowTemplates(false);
+    setEditorTarget({ templateId: template.id, name: template.name, exam: template.exam, quiz: template.quiz, forReadyScreen: false });
+  };
+
+  const openAnalytics = async () => {
+    // Only the latest load may update the dashboard
+    analyticsLoadRef.current?.abort();
+    const controller = new AbortController();
+    analyticsLoadRef.current = controller;
+    setShowResultsPanel(false);
+    setShowAnalytics(true);
+    setAnalyticsError(null);
+    setAnalyticsProgress({ loaded: 0, total: 0 });
     try {
-      setResultsLoading(true);
-      setResultsError(null);
       const token = await getAccessToken();
       if (!token) throw new Error('Not authenticated');
-      const { data, meta } = await fetchResultsList({ resultsUrl: RESULTS_URL, accessToken: token, page, limit });
-      setResults(data);
-      setResultsPage(meta.page);
-      setResultsLimit(meta.limit);
-      setResultsHasMore(meta.hasMore);
-      setSelectedResult(null);
+      const details = await loadResultHistory({
+        resultsUrl: RESULTS_URL,
+        accessToken: token,
+        onProgress: (loaded, total) => {
+          if (!controller.signal.aborted) setAnalyticsProgress({ loaded, total });
+        },
+        signal: controller.signal,
+      });
+      if (!controller.signal.aborted) setAnalyticsReport(computeAnalytics(details));
     } catch (e) {
-      setResultsError(e instanceof Error ? e.message : 'Failed to load results');
+      if (!controller.signal.aborted) setAnalyticsError(e instanceof Error ? e.message : 'Failed to load results');
     } finally {
-      setResultsLoading(false);
+      if (analyticsLoadRef.current === controller) {
+        analyticsLoadRef.current = null;
+        setAnalyticsProgress(null);
+      }
     }
   };
 
-  const loadResultDetail = async (id: string) => {
+  const closeAnalytics = () => {
+    analyticsLoadRef.current?.abort();
+    analyticsLoadRef.current = null;
+    setAnalyticsProgress(null);
+    setShowAnalytics(false);
+  };
+
+  /**
+   * Exports every result matching the panel's filters (up to the history limit)
+   */
+  const exportFilteredResults = async (format: ExportFormat) => {
+    setExportError(null);
+    let printWindow: Window | undefined;
     try {
-      setResultsLoading(true);
-      setResultsError(null);
+      if (format === 'print') printWindow = openPrintWindow();
+      setExporting(true);
       const token = await getAccessToken();
       if (!token) throw new Error('Not authenticated');
-      const detail = await fetchResultById({ resultsUrl: RESULTS_URL, accessToken: token, id });
-      setSelectedResult(detail);
-      // Open as a dedicated page view
-      setResultDetailPage(detail);
-      setShowResultsPanel(false);
+      const details = await loadResultHistory({ resultsUrl: RESULTS_URL, accessToken: token, query: resultsQuery, fresh: true });
+      if (details.length === 0) throw new Error('No results match the filters');
+      exportResults(details, format, `practise-pitch-results-${localDayKey(new Date())}`, printWindow);
     } catch (e) {
-      setResultsError(e instanceof Error ? e.message : 'Failed to load result');
+      printWindow?.close();
+      setExportError(e instanceof Error ? e.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const exportSingleResult = (detail: ResultDetail, format: ExportFormat) => {
+    setExportError(null);
+    try {
+      exportResults([detail], format, `practise-pitch-result-${localDayKey(new Date(detail.created_at))}`);
+    } catch (e) {
+      setExportError(e instanceof Error ? e.message : 'Export failed');
+    }
+  };
+
+  const openResultsPanel = async () => {
+    setShowResultsPanel(true);
+    await loadResultsPage(0, resultsLimit);
+  };
+
+  const applyResultsQuery = (query: ResultsQuery) => {
+    setResultsQuery(query);
+    localStorage.setItem(RESULTS_QUERY_PREF_KEY, JSON.stringify(query));
+    void loadResultsPage(0, resultsLimit, query);
+  };
+
+  const loadResultsPage = async (page: number, limit: number, query = resultsQuery) => {
+    try {
+      setResultsLoading(true);
+      setResultsError(null);
+      const token = await getAccessToken();
+      if (!token) throw new Error('Not authenticated');
+      const { data, meta } = await searchResultsPage({ resultsUrl: RESULTS_URL, accessToken: token, page, limit, query, onRetry: setResultsRetry });
+      setResults(data);
+      setResultsPage(meta.page);
+      setResultsLimit(meta.limit);
+      setResultsHasMore(meta.hasMore);
+      setResultsTruncated(!!meta.truncated);
+      setSelectedResult(null);
+    } catch (e) {
+      setResultsError(e instanceof Error ? e.message : 'Failed to load results');
+    } finally {
+      setResultsLoading(false);
+      setResultsRetry(null);
+    }
+  };
+
+  const loadResultDetail = async (id: string) => {
+    try {
+      setResultsLoading(true);
+      setResultsError(null);
+      const token = await getAccessToken();
+      if (!token) throw new Error('Not authenticated');
+      const detail = await fetchResultById({ resultsUrl: RESULTS_URL, accessToken: token, id, onRetry: setResultsRetry });
+      setSelectedResult(detail);
+      // Open as a dedicated page view
+      setResultDetailPage(detail);
+      setShowResultsPanel(false);
+      setExportError(null);
+      void loadAttemptHistory(detail, token);
+    } catch (e) {
+      setResultsError(e instanceof Error ? e.message : 'Failed to load result');
     } finally {
       setResultsLoading(false);
+      setResultsRetry(null);
+    }
+  };
+
+  /**
+   * Walks a retried result's links back to the first attempt. Stops quietly
+   * at an attempt that can't be fetched; the chain found so far still shows.
+   */
+  const loadAttemptHistory = async (detail: ResultDetail, token: string) => {
+    const history: ResultDetail[] = [];
+    let link = detail.solutions?.retryOf;
+    while (link && history.length < MAX_ATTEMPT_HISTORY) {
+      try {
+        const parent = await fetchResultById({ resultsUrl: RESULTS_URL, accessToken: token, id: link.resultId });
+        history.unshift(parent);
+        link = parent.solutions?.retryOf;
+      } catch {
+        break;
+      }
     }
+    setAttemptHistory({ resultId: detail.id, attempts: history });
   };
 
   const renderSavedResultPage = () => {
     const detail = resultDetailPage;
     if (!detail) return null;
 
-    // Best-effort MCQ rendering similar to live answers view
-    const qData: any = detail.questions as any;
-    const isMcq = qData && qData.questionType === 'MCQ';
-    const questionArray: any[] = isMcq ? qData.QuestionArray : [];
-    const answerArray: string[] = isMcq ? qData.AnswerArray : [];
+    // Best-effort rendering similar to live answers view
+    const savedQuiz = parseStoredQuiz(detail.questions);
+    const savedItems = savedQuiz ? getQuizItems(savedQuiz) : [];
     const userAns = (detail.solutions?.userAnswers || {}) as Record<number, string>;
+    const savedEvaluations = detail.solutions?.evaluations || [];
+    const savedScheme = detail.solutions?.markingScheme;
+    const savedConfidence = detail.solutions?.confidence;
+    const missedCount = missedQuestionIndices(savedItems, userAns).length;
+    const quizInProgress = !!questions && !isSubmitted;
+    // The attempt this one retried, for "last time" answers
+    const retryOf = detail.solutions?.retryOf;
+    const earlierAttempts = attemptHistory?.resultId === detail.id ? attemptHistory.attempts : [];
+    const previous = earlierAttempts.find((attempt) => attempt.id === retryOf?.resultId);
 
     return (
       <div className="max-w-4xl mx-auto p-6 md:p-8">
@@ -482,77 +1558,96 @@ export default function App() {
 
         <div className="text-center space-y-4 mb-6">
           <div className="text-2xl"><span className="font-semibold">Topic:</span> {detail.topic}</div>
-          <div className="text-2xl"><span className="font-semibold">Score:</span> {detail.solutions?.score}</div>
+          <div className="text-2xl"><span className="font-semibold">Score:</span> {formatSavedScore(detail)}</div>
           <div className="text-2xl"><span className="font-semibold">Time:</span> {formatDuration(detail.time_ms)}</div>
+          {detail.solutions?.timing && <div className="text-gray-500">{describeSubmission(detail.solutions.timing)}</div>}
+          {detail.solutions?.focus && <div className="text-gray-500">{describeFocusReport(detail.solutions.focus)}</div>}
           <div className="text-gray-500">Created: {new Date(detail.created_at).toLocaleString()}</div>
+          {detail.solutions?.summary && savedScheme && (
+            <ScoreBreakdown summary={detail.solutions.summary} scheme={savedScheme} />
+          )}
+          <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+            <span className="text-gray-600">Export:</span>
+            <ExportButtons onExport={(format) => exportSingleResult(detail, format)} />
+          </div>
+          {exportError && <p className="text-sm text-red-600">{exportError}</p>}
+          {savedQuiz && (
+            <button
+              onClick={() => {
+                const { exam, topic } = splitSavedTopic(detail.topic);
+                setEditorTarget({ name: topic, exam, quiz: savedQuiz, forReadyScreen: false });
+              }}
+              className="px-4 py-2 mr-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 cursor-pointer"
+            >
+              Edit as my quiz
+            </button>
+          )}
+          {savedQuiz && missedCount > 0 && (
+            <button
+              onClick={() => retryMistakes(detail)}
+              disabled={quizInProgress}
+              title={quizInProgress ? 'Finish or submit the current quiz first' : undefined}
+              className="px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Retry incorrect / unanswered ({missedCount})
+            </button>
+          )}
         </div>
 
-        {isMcq && (
-          <div className="space-y-6">
-            {questionArray.map((qItem: any, index: number) => {
-              const correctLetter = answerArray[index];
-              const correctOption = (qItem.Options || []).find((opt: string) => opt.startsWith(`${correctLetter}`)) || '';
-              const u = userAns[index];
-              const isCorrect = u && u.startsWith(correctLetter);
-              return (
-                <div key={index} className="p-5 border border-gray-200 rounded-xl">
-                  <div className="flex items-start justify-between">
-                    <div className="text-lg font-semibold text-gray-900">
-                      <span className="mr-2 text-gray-500">{index + 1}.</span>
-                      <span className="align-middle">
-                        {renderRichQuestionText(qItem.Q)}
-                      </span>
-                    </div>
-                    <span className={`ml-4 px-3 py-1 text-xs font-semibold rounded-full ${isCorrect ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
-                      {isCorrect ? 'Correct' : 'Incorrect'}
-                    </span>
-                  </div>
-                  <div className="mt-4 space-y-2">
-                    {(qItem.Options || []).map((opt: string, i: number) => {
-                      const isTheCorrect = opt === correctOption;
-                      const isUserChoice = opt === u;
-                      return (
-                        <div
-                          key={i}
-                          className={`p-3 rounded-lg border text-sm
-                            ${isTheCorrect ? 'border-green-400 bg-green-50' : 'border-gray-200 bg-white'}
-                            ${isUserChoice && !isTheCorrect ? 'border-red-300 bg-red-50' : ''}
-                            `}
-                        >
-                          <span>{opt}</span>
-                          {isTheCorrect && <span className="ml-2 text-green-700 font-medium">(Correct)</span>}
-                          {isUserChoice && !isTheCorrect && <span className="ml-2 text-red-700">(Your choice)</span>}
-                        </div>
-                      );
-                    })}
-                  </div>
-                </div>
-              );
-            })}
+        {earlierAttempts.length > 0 && (
+          <div className="mb-6">
+            <AttemptHistory attempts={[...earlierAttempts, detail].map(summarizeAttempt)} onOpen={loadResultDetail} />
           </div>
         )}
 
-        {!isMcq && (
-          <div className="space-y-6">
-            {(qData?.QuestionArray || []).map((qText: string, index: number) => {
-              const answerText = userAns[index];
-              return (
-                <div key={index} className="p-5 border border-gray-200 rounded-xl">
-                  <div className="text-lg font-semibold text-gray-900 mb-3">
-                    <span className="mr-2 text-gray-500">{index + 1}.</span>
-                    <span className="align-middle">{renderRichQuestionText(qText)}</span>
-                  </div>
-                  <div className="mt-2">
-                    <div className="text-sm font-medium text-gray-700 mb-1">Your answer:</div>
-                    <div className="text-sm text-gray-800 bg-gray-50 p-3 rounded border">
-                      {answerText && answerText.trim() ? answerText : '— No answer provided —'}
-                    </div>
-                  </div>
-                </div>
-              );
-            })}
+        {!savedQuiz && (
+          <p className="text-center text-gray-600">The questions for this result can't be displayed.</p>
+        )}
+
+        {savedConfidence && (
+          <div className="mb-6">
+            <CalibrationBreakdown report={computeCalibration(savedItems, userAns, savedConfidence)} />
           </div>
         )}
+
+        <div className="space-y-6">
+          {savedItems.map((item, index) => (
+            <AnswerReviewCard
+              key={index}
+              index={index}
+              item={item}
+              userAnswer={userAns[index]}
+              marks={savedScheme ? markItem(item, userAns[index], savedScheme) : undefined}
+              evaluation={savedEvaluations.find((ev) => ev.index === index)}
+            >
+              {detail.solutions?.perQuestionMs?.[index] !== undefined && (
+                <div className="mt-2 text-sm text-gray-600">Time spent: {formatDuration(detail.solutions.perQuestionMs[index])}</div>
+              )}
+              {savedConfidence?.[index] && (
+                <div className="mt-2 text-sm text-gray-600">Confidence: {CONFIDENCE_LABELS[savedConfidence[index]]}</div>
+              )}
+              {detail.solutions?.focus?.log[index] && (
+                <div className="mt-2 text-sm text-amber-700">{describeFocusLosses(detail.solutions.focus.log[index])}</div>
+              )}
+              {previous && retryOf && (
+                <div className="mt-2 text-sm text-gray-600">
+                  Last attempt: {previous.solutions?.userAnswers?.[retryOf.questionIndices[index]] || '— Not answered —'}
+                </div>
+              )}
+              {item.type !== 'Subjective' && (
+                <ExplanationPanel
+                  explanation={detail.solutions?.explanations?.[index]}
+                  status={explanationStatus[explanationKey(detail.id, index)]}
+                  onExplain={() => explainQuestion(index, item, userAns[index], detail)}
+                />
+              )}
+              <BankToggle
+                inBank={bankIds.has(bankItemId(item))}
+                onToggle={() => toggleBankItem({ item, ...splitSavedTopic(detail.topic) })}
+              />
+            </AnswerReviewCard>
+          ))}
+        </div>
       </div>
     );
   };
@@ -566,6 +1661,37 @@ export default function App() {
     <div className="w-full max-w-xl p-8 space-y-6 bg-white shadow-xl rounded-2xl relative">
       <h2 className="text-4xl font-extrabold text-center text-gray-900">practise-pitch 🏏</h2>
       <p className="text-center text-sm text-gray-600 -mt-3">Step onto the pitch and test your wits. Ready to bat? </p>
+      {resumableSession && (
+        <div className="p-4 space-y-3 text-sm bg-amber-50 border border-amber-200 rounded-lg">
+          <div>
+            <p className="font-semibold text-amber-900">Resume your innings?</p>
+            <p className="text-amber-800">
+              {resumableSession.config.exam} : {resumableSession.effectiveTopic}
+              {' · '}
+              {Object.values(resumableSession.userAnswers).filter(isAttempted).length} of {resumableSession.questions.QuestionArray.length} answered
+              {' · '}
+              {formatDuration(resumableSession.elapsedMs)} played
+            </p>
+            <p className="text-xs text-amber-700">Last saved {new Date(resumableSession.savedAt).toLocaleString()}</p>
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() => resumeQuiz(resumableSession)}
+              className="px-4 py-2 font-semibold text-white bg-green-600 rounded-lg hover:bg-green-700 cursor-pointer"
+            >
+              Resume
+            </button>
+            <button
+              type="button"
+              onClick={discardSavedQuiz}
+              className="px-4 py-2 font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 cursor-pointer"
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
       <form onSubmit={handleCreateQuiz} className="space-y-4">
         <div>
           <label htmlFor="exam" className="block text-sm font-medium text-gray-700">📘 Exam</label>
@@ -575,9 +1701,18 @@ export default function App() {
             name="exam"
             value={quizConfig.exam}
             onChange={handleConfigChange}
+            list="exam-options"
             className="w-full px-4 py-2 mt-1 text-gray-900 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500"
-            placeholder="e.g., UPSC, GRE, NEET"
+            placeholder="e.g., UPSC Prelims, GRE, NEET"
           />
+          <datalist id="exam-options">
+            {EXAM_PROFILES.map((profile) => <option key={profile.name} value={profile.name} />)}
+          </datalist>
+          {examProfile && (
+            <p className="mt-1 text-xs text-gray-500">
+              Suggested pace: {formatDuration(examProfile.secondsPerQuestion * 1000)} per question
+            </p>
+          )}
         </div>
 
         <div>
@@ -588,9 +1723,13 @@ export default function App() {
             name="topic"
             value={quizConfig.topic}
             onChange={handleConfigChange}
+            list="topic-options"
             className="w-full px-4 py-2 mt-1 text-gray-900 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500"
             placeholder="Miscellaneous (related to the exam)"
           />
+          <datalist id="topic-options">
+            {examProfile?.topics.map((topic) => <option key={topic} value={topic} />)}
+          </datalist>
         </div>
 
         <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
@@ -604,7 +1743,9 @@ export default function App() {
               onChange={handleConfigChange}
               min="1"
               max="20"
-              className={`w-full px-4 py-2 mt-1 text-gray-900 border rounded-lg focus:ring-indigo-500 focus:border-indigo-500 ${formErrors.q_no ? 'border-red-500' : 'border-gray-300'}`}
+              readOnly={quizConfig.questionType === 'Mixed'}
+              title={quizConfig.questionType === 'Mixed' ? 'Set by the per-type counts below' : undefined}
+              className={`w-full px-4 py-2 mt-1 text-gray-900 border rounded-lg read-only:bg-gray-100 focus:ring-indigo-500 focus:border-indigo-500 ${formErrors.q_no ? 'border-red-500' : 'border-gray-300'}`}
             />
             {formErrors.q_no && (
               <p className="mt-1 text-sm text-red-600">{formErrors.q_no}</p>
@@ -619,9 +1760,9 @@ export default function App() {
               onChange={handleConfigChange}
               className="w-full px-4 py-2 mt-1 text-gray-900 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500"
             >
-              <option>Easy</option>
-              <option>Medium</option>
-              <option>Hard</option>
+              {DIFFICULTIES.map((difficulty) => (
+                <option key={difficulty} value={difficulty}>{examProfile?.difficultyLabels[difficulty] ?? difficulty}</option>
+              ))}
             </select>
           </div>
           <div>
@@ -633,8 +1774,9 @@ export default function App() {
               onChange={handleConfigChange}
               className="w-full px-4 py-2 mt-1 text-gray-900 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500"
             >
-              <option value="MCQ">MCQ</option>
-              <option value="Subjective">Subjective</option>
+              {(examProfile?.questionTypes ?? (Object.keys(QUESTION_TYPE_LABELS) as QuestionType[])).map((type) => (
+                <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+              ))}
             </select>
           </div>
           <div>
@@ -646,12 +1788,91 @@ export default function App() {
               onChange={handleConfigChange}
               className="w-full px-4 py-2 mt-1 text-gray-900 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500"
             >
-              <option value="English">English</option>
-              <option value="Hindi">Hindi</option>
+              {(examProfile?.languages ?? DEFAULT_LANGUAGES).map((language) => (
+                <option key={language} value={language}>{language}</option>
+              ))}
             </select>
           </div>
         </div>
 
+        {quizConfig.questionType === 'Mixed' && (
+          <fieldset className="p-4 border border-gray-200 rounded-lg">
+            <legend className="px-1 text-sm font-medium text-gray-700">🧩 Paper mix</legend>
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+              {ITEM_TYPES.filter((itemType) => !examProfile || examProfile.questionTypes.includes(itemType)).map((itemType) => (
+                <label key={itemType} className="block text-xs text-gray-600">
+                  {QUESTION_TYPE_LABELS[itemType]}
+                  <input
+                    type="number"
+                    min="0"
+                    max="20"
+                    value={quizConfig.mix[itemType] ?? 0}
+                    onChange={(e) => handleMixChange(itemType, e.target.value)}
+                    className="w-full px-3 py-1.5 mt-1 text-gray-900 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        )}
+
+        <div>
+          <label htmlFor="markingScheme" className="block text-sm font-medium text-gray-700">📏 Marking</label>
+          <select
+            id="markingScheme"
+            value={markingSchemeId}
+            onChange={(e) => setMarkingSchemeId(e.target.value as MarkingSchemeId | 'auto')}
+            className="w-full px-4 py-2 mt-1 text-gray-900 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="auto">Auto — {markingSchemeFor(quizConfig.exam).label}</option>
+            {Object.values(MARKING_SCHEMES).map((scheme) => (
+              <option key={scheme.id} value={scheme.id}>{scheme.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 cursor-pointer">
+            <input type="checkbox" checked={timedMode} onChange={(e) => setTimedMode(e.target.checked)} />
+            ⏱️ Timed mode
+          </label>
+          {timedMode && (
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="number"
+                min="1"
+                max="300"
+                value={timeLimitMinutes ?? suggestedTimeLimitMinutes}
+                onChange={(e) => setTimeLimitMinutes(Math.min(300, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                className="w-20 px-3 py-1.5 text-gray-900 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              minutes
+              {timeLimitMinutes !== null && timeLimitMinutes !== suggestedTimeLimitMinutes && (
+                <button
+                  type="button"
+                  onClick={() => setTimeLimitMinutes(null)}
+                  className="text-xs text-indigo-600 hover:underline cursor-pointer"
+                >
+                  Use suggested ({suggestedTimeLimitMinutes})
+                </button>
+              )}
+            </label>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="awayTiming" className="block text-sm font-medium text-gray-700">👀 When I switch tabs</label>
+          <select
+            id="awayTiming"
+            value={awayTimingMode}
+            onChange={(e) => changeAwayTimingMode(e.target.value as AwayTimingMode)}
+            className="w-full px-4 py-2 mt-1 text-gray-900 border border-gray-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="pause">Pause the clock</option>
+            <option value="flag">Keep the clock running and flag it</option>
+          </select>
+        </div>
+
         <button
           type="submit"
           disabled={isCreating || !!formErrors.q_no}
@@ -670,96 +1891,272 @@ export default function App() {
     <div className="w-full max-w-xl p-10 text-center bg-white shadow-lg rounded-2xl">
       <h2 className="text-3xl font-bold text-gray-800 mb-4">🎉 Your pitch is ready!</h2>
       <p className="text-gray-700 mb-6">Are you ready to bat? 🏏 Timers begin when you press Start.</p>
+      {generationProgress && (
+        <p className="text-sm text-gray-600 -mt-3 mb-6">
+          {generationProgress.received} question{generationProgress.received === 1 ? '' : 's'} ready
+          {generationProgress.total ? ` of ${generationProgress.total}` : ''} — the rest will keep arriving while you play.
+        </p>
+      )}
       <button
         onClick={beginPreparedQuiz}
         className="w-full px-6 py-3 font-semibold text-white bg-green-600 rounded-lg shadow-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 cursor-pointer"
       >
         Start Quiz
       </button>
+      {/* Editing waits for a streaming generation to finish, so no questions are lost */}
+      {preparedQuestions && !generationProgress && !isCreating && (
+        <button
+          onClick={() => setEditorTarget({
+            name: effectiveTopic,
+            exam: quizConfig.exam,
+            quiz: preparedQuestions,
+            forReadyScreen: true,
+          })}
+          className="w-full mt-3 px-6 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 cursor-pointer"
+        >
+          Edit questions
+        </button>
+      )}
     </div>
   );
 
+  /**
+   * Picks the display component for the current question's type
+   */
+  const renderQuestionInput = (item: QuizItem | undefined) => {
+    if (!item) return null;
+    const answer = userAnswers[currentQuestionIndex];
+    if (item.type === 'Subjective') {
+      return <SubjectiveQuestionDisplay question={item.question} currentAnswer={answer} onAnswerChange={handleAnswerChange} />;
+    }
+
+    let display: React.ReactNode;
+    switch (item.type) {
+      case 'MCQ':
+        display = <McqQuestionDisplay question={item.question} selectedAnswer={answer} onAnswerSelect={handleAnswerChange} />;
+        break;
+      case 'MultiSelect':
+        display = <MultiSelectQuestionDisplay question={item.question} selectedAnswer={answer} onAnswerChange={handleAnswerChange} />;
+        break;
+      case 'TrueFalse':
+        display = <TrueFalseQuestionDisplay question={item.question} selectedAnswer={answer} onAnswerSelect={handleAnswerChange} />;
+        break;
+      case 'Numeric':
+        display = <NumericQuestionDisplay question={item.question} currentAnswer={answer} onAnswerChange={handleAnswerChange} />;
+        break;
+      case 'AssertionReason':
+        display = <AssertionReasonQuestionDisplay question={item.question} selectedAnswer={answer} onAnswerSelect={handleAnswerChange} />;
+        break;
+    }
+    // Auto-graded answers also get a confidence rating for the calibration report
+    return (
+      <>
+        {display}
+        <ConfidencePicker value={confidence[currentQuestionIndex]} onChange={handleConfidenceChange} />
+      </>
+    );
+  };
+
   /**
    * Renders the main quiz interface with one question at a time
    */
   const renderQuiz = () => {
     if (!questions) return null;
 
-    const totalQuestions = questions.questionType === 'MCQ'
-      ? questions.QuestionArray.length
-      : questions.QuestionArray.length;
-    
+    const availableQuestions = questions.QuestionArray.length;
+    // While streaming, the quiz length is what the backend promised, not what has arrived
+    const totalQuestions = Math.max(generationProgress?.total ?? availableQuestions, availableQuestions);
+    const pendingQuestions = totalQuestions - availableQuestions;
+
     const isLastQuestion = currentQuestionIndex === totalQuestions - 1;
+    const isWaitingForNext = pendingQuestions > 0 && currentQuestionIndex === availableQuestions - 1;
     const accumulatedMs = perQuestionDurationsMs[currentQuestionIndex] || 0;
     const liveMs = isSubmitted ? 0 : currentQuestionElapsedMs;
     const shownMs = accumulatedMs + liveMs;
+    // Latest warning threshold crossed, only for limits longer than it
+    const timeWarningMs = remainingMs !== null && activeTimeLimitMs !== null
+      ? [...TIME_WARNINGS_MS].reverse().find((ms) => remainingMs <= ms && activeTimeLimitMs > ms)
+      : undefined;
+
+    const statuses = Array.from({ length: totalQuestions }, (_, i) => questionStatus(i));
+    const unanswered = statuses.flatMap((status, i) => (status === 'answered' || status === 'answered-marked' ? [] : [i]));
+    const marked = [...markedQuestions].sort((a, b) => a - b);
+    const isMarked = markedQuestions.has(currentQuestionIndex);
 
     return (
-      <div className="w-full max-w-3xl p-8 space-y-6 bg-white shadow-2xl rounded-2xl">
-        {/* Progress Bar and Counter */}
-        <div className="mb-6">
-          <div className="flex justify-between mb-2">
-            <span className="text-lg font-semibold text-blue-700">
-              Question {currentQuestionIndex + 1} of {totalQuestions}
-            </span>
-            <span className="text-lg font-medium text-gray-600">
-              {questions.questionType}
-            </span>
-          </div>
-          <div className="w-full bg-gray-200 rounded-full h-2.5">
-            <div
-              className="bg-blue-600 h-2.5 rounded-full transition-all duration-300"
-              style={{ width: `${((currentQuestionIndex + 1) / totalQuestions) * 100}%` }}
-            ></div>
-          </div>
-          <div className="mt-2 text-right text-sm text-gray-600">
-            Time on this question: <span className="font-medium text-gray-800">{formatDuration(shownMs)}</span>
+      <div className="w-full max-w-6xl flex flex-col lg:flex-row gap-6 items-start justify-center">
+        <div className="w-full max-w-3xl p-8 space-y-6 bg-white shadow-2xl rounded-2xl">
+          {/* Progress Bar and Counter */}
+          <div className="mb-6">
+            <div className="flex justify-between mb-2">
+              <span className="text-lg font-semibold text-blue-700">
+                Question {currentQuestionIndex + 1} of {totalQuestions}
+              </span>
+              <span className="text-lg font-medium text-gray-600">
+                {QUESTION_TYPE_LABELS[quizItems[currentQuestionIndex]?.type ?? questions.questionType]}
+              </span>
+            </div>
+            <div className="relative w-full bg-gray-200 rounded-full h-2.5">
+              {pendingQuestions > 0 && (
+                <div
+                  className="absolute inset-y-0 left-0 bg-blue-200 rounded-full transition-all duration-300"
+                  style={{ width: `${(availableQuestions / totalQuestions) * 100}%` }}
+                ></div>
+              )}
+              <div
+                className="relative bg-blue-600 h-2.5 rounded-full transition-all duration-300"
+                style={{ width: `${((currentQuestionIndex + 1) / totalQuestions) * 100}%` }}
+              ></div>
+            </div>
+            <div className="mt-2 flex justify-between text-sm text-gray-600">
+              <span>
+                {pendingQuestions > 0 && `${availableQuestions} generated · ${pendingQuestions} pending`}
+              </span>
+              <span>
+                Time on this question: <span className="font-medium text-gray-800">{formatDuration(shownMs)}</span>
+                {remainingMs !== null && (
+                  <span
+                    className={`ml-3 px-2 py-0.5 rounded-md font-semibold tabular-nums ${
+                      remainingMs <= 60_000 ? 'bg-red-100 text-red-700' : remainingMs <= 5 * 60_000 ? 'bg-amber-100 text-amber-800' : 'bg-gray-100 text-gray-800'
+                    }`}
+                    title="Time left"
+                  >
+                    ⏱️ {formatDuration(remainingMs)}
+                  </span>
+                )}
+              </span>
+            </div>
+            {timeWarningMs !== undefined && (
+              <div className={`mt-3 text-sm rounded-md p-3 border ${timeWarningMs <= 60_000 ? 'text-red-800 bg-red-50 border-red-200' : 'text-amber-800 bg-amber-50 border-amber-200'}`}>
+                {timeWarningMs <= 60_000
+                  ? 'Less than a minute left. The quiz will submit automatically when time runs out.'
+                  : 'Less than 5 minutes left.'}
+              </div>
+            )}
+            {generationWarning && (
+              <div className="mt-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-3">{generationWarning}</div>
+            )}
           </div>
-        </div>
-
-        {/* Question Display */}
-        <div className="py-4">
-          {questions.questionType === 'MCQ' ? (
-            <McqQuestionDisplay
-              question={questions.QuestionArray[currentQuestionIndex]}
-              selectedAnswer={userAnswers[currentQuestionIndex]}
-              onAnswerSelect={handleAnswerChange}
-            />
-          ) : (
-            <SubjectiveQuestionDisplay
-              question={questions.QuestionArray[currentQuestionIndex]}
-              currentAnswer={userAnswers[currentQuestionIndex]}
-              onAnswerChange={handleAnswerChange}
-            />
-          )}
-        </div>
 
-        {/* Navigation Buttons */}
-        <div className="flex justify-between pt-6 border-t border-gray-200">
-          <button
-            onClick={handlePrevQuestion}
-            disabled={currentQuestionIndex === 0}
-            className="px-6 py-2 font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-400 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            Previous
-          </button>
+          {/* Question Display */}
+          <div className="py-4">
+            {renderQuestionInput(quizItems[currentQuestionIndex])}
+          </div>
 
-          {isLastQuestion ? (
+          {/* Navigation Buttons */}
+          <div className="flex justify-between pt-6 border-t border-gray-200">
             <button
-              onClick={handleSubmitQuiz}
-              className="px-8 py-2 font-semibold text-white bg-green-600 rounded-lg shadow-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2"
+              onClick={handlePrevQuestion}
+              disabled={currentQuestionIndex === 0}
+              className="px-6 py-2 font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-400 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              Submit Quiz
+              Previous
             </button>
-          ) : (
+
             <button
-              onClick={handleNextQuestion}
-              className="px-8 py-2 font-semibold text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+              onClick={toggleMarkForReview}
+              className={`px-4 py-2 font-medium rounded-lg border focus:outline-none focus:ring-2 focus:ring-purple-400 cursor-pointer ${
+                isMarked ? 'text-white bg-purple-500 border-purple-600 hover:bg-purple-600' : 'text-purple-700 bg-purple-50 border-purple-200 hover:bg-purple-100'
+              }`}
             >
-              Next
+              {isMarked ? 'Unmark review' : 'Mark for review'}
             </button>
-          )}
+
+            {isWaitingForNext ? (
+              <button
+                disabled
+                className="px-8 py-2 font-semibold text-white bg-blue-400 rounded-lg shadow-md cursor-wait"
+              >
+                Generating question {availableQuestions + 1}…
+              </button>
+            ) : isLastQuestion ? (
+              <button
+                onClick={() => setShowSubmitSummary(true)}
+                className="px-8 py-2 font-semibold text-white bg-green-600 rounded-lg shadow-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2"
+              >
+                Submit Quiz
+              </button>
+            ) : (
+              <button
+                onClick={handleNextQuestion}
+                className="px-8 py-2 font-semibold text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+              >
+                Next
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="w-full lg:w-64 shrink-0 space-y-3">
+          <QuestionPalette
+            statuses={statuses}
+            available={availableQuestions}
+            current={currentQuestionIndex}
+            onSelect={goToQuestion}
+          />
+          <button
+            onClick={requestSubmit}
+            disabled={pendingQuestions > 0}
+            title={pendingQuestions > 0 ? 'Available once every question has arrived' : undefined}
+            className="w-full px-6 py-2 font-semibold text-white bg-green-600 rounded-lg shadow-md hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed cursor-pointer"
+          >
+            Submit Quiz
+          </button>
+          <button
+            onClick={() => setShowShortcuts(true)}
+            className="w-full text-xs text-gray-600 hover:text-gray-900 cursor-pointer"
+          >
+            ⌨️ Keyboard shortcuts (press ?)
+          </button>
         </div>
+
+        {showShortcuts && <ShortcutsOverlay bindings={quizShortcuts} onClose={() => setShowShortcuts(false)} />}
+
+        {/* Pre-submit summary */}
+        {showSubmitSummary && (
+          <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+            <div className="w-full max-w-md p-6 bg-white rounded-2xl shadow-2xl space-y-4" role="dialog" aria-modal="true">
+              <h3 className="text-xl font-semibold text-gray-900">Submit quiz?</h3>
+              <p className="text-sm text-gray-600">
+                {totalQuestions - unanswered.length} of {totalQuestions} answered
+                {marked.length > 0 && ` · ${marked.length} marked for review`}
+              </p>
+              {[
+                { label: 'Unanswered', indices: unanswered },
+                { label: 'Marked for review', indices: marked },
+              ].map(({ label, indices }) => indices.length > 0 && (
+                <div key={label}>
+                  <div className="text-sm font-medium text-gray-700 mb-2">{label}</div>
+                  <div className="flex flex-wrap gap-2">
+                    {indices.map((i) => (
+                      <button
+                        key={i}
+                        onClick={() => { setShowSubmitSummary(false); goToQuestion(i); }}
+                        className="h-8 min-w-8 px-2 text-sm font-semibold text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 cursor-pointer"
+                      >
+                        {i + 1}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <div className="flex gap-3 pt-2">
+                <button
+                  onClick={() => setShowSubmitSummary(false)}
+                  className="flex-1 px-4 py-2 font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 cursor-pointer"
+                >
+                  Keep answering
+                </button>
+                <button
+                  onClick={() => handleSubmitQuiz()}
+                  className="flex-1 px-4 py-2 font-semibold text-white bg-green-600 rounded-lg hover:bg-green-700 cursor-pointer"
+                >
+                  Submit now
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
       </div>
     );
   };
@@ -769,38 +2166,69 @@ export default function App() {
    */
   const renderResults = () => (
     <div className="w-full max-w-xl p-10 text-center bg-white shadow-lg rounded-2xl">
-      <h2 className="text-3xl font-bold text-gray-800 mb-4">Quiz Complete!</h2>
+      <h2 className="text-3xl font-bold text-gray-800 mb-4">{submission?.submittedBy === 'timeout' ? "Time's up!" : 'Quiz Complete!'}</h2>
       <p className="text-lg text-gray-600 mb-6">
         Your answers have been submitted.
       </p>
+      {generationWarning && (
+        <div className="mb-6 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-3">{generationWarning}</div>
+      )}
       
-      {/* Optional: Show score for MCQs */}
-      {questions?.questionType === 'MCQ' && (
+      {/* Optional: Show score for auto-graded question types */}
+      {(gradableCount > 0 || evaluations.length > 0) && (
         <div className="mb-6">
           <p className="text-xl font-semibold">
-            Your Score: {calculateScore()} / {questions.QuestionArray.length}
+            Your Score: {formatMarks(scoreSummary.net + sumMarks(evaluations))} / {scoreSummary.max + writtenMaxMarks}
           </p>
+          {gradableCount > 0 && <ScoreBreakdown summary={scoreSummary} scheme={markingScheme} />}
+          {evaluations.length > 0 && (
+            <p className="mt-2 text-sm text-gray-600">
+              Written answers: {formatMarks(sumMarks(evaluations))} / {writtenMaxMarks}
+            </p>
+          )}
+        </div>
+      )}
+
+      {evaluationStatus === 'evaluating' && (
+        <div className="mb-4 text-sm text-indigo-800 bg-indigo-50 border border-indigo-200 rounded-md p-3">
+          Evaluating your answers…
+        </div>
+      )}
+      {evaluationStatus === 'error' && (
+        <div className="mb-4 text-sm text-red-800 bg-red-50 border border-red-200 rounded-md p-3">
+          Couldn't evaluate your written answers{evaluationError ? `: ${evaluationError}` : ''}. They were saved without marks.
         </div>
       )}
 
       {typeof totalTimeMs === 'number' && (
         <div className="mb-6">
           <p className="text-lg text-gray-700">Time Taken: {formatDuration(totalTimeMs)}</p>
+          {submission && <p className="text-sm text-gray-500">{describeSubmission(submission)}</p>}
         </div>
       )}
 
       {/* Save status banner */}
       {saveStatus === 'saving' && (
-        <div className="mb-4 text-sm text-blue-800 bg-blue-50 border border-blue-200 rounded-md p-3">Saving results…</div>
+        <div className="mb-4 text-sm text-blue-800 bg-blue-50 border border-blue-200 rounded-md p-3">
+          {saveRetry ? formatRetryAttempt(saveRetry) : 'Saving results…'}
+        </div>
       )}
       {saveStatus === 'success' && (
         <div className="mb-4 text-sm text-green-800 bg-green-50 border border-green-200 rounded-md p-3">Results saved.</div>
       )}
+      {saveStatus === 'queued' && (
+        <div className="mb-4 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-3">
+          Couldn't save right now{saveError ? ` (${saveError})` : ''}. Your result is stored on this device and will sync automatically.
+          <button onClick={() => void syncOutbox()} className="ml-2 font-semibold underline cursor-pointer" disabled={outboxSyncing}>
+            {outboxSyncing ? 'Retrying…' : 'Retry now'}
+          </button>
+        </div>
+      )}
       {saveStatus === 'error' && (
         <div className="mb-4 text-sm text-red-800 bg-red-50 border border-red-200 rounded-md p-3">Save failed{saveError ? `: ${saveError}` : ''}</div>
       )}
 
-      {questions?.questionType === 'MCQ' && (
+      {(gradableCount > 0 || evaluations.length > 0) && (
         <button
           onClick={() => setShowAnswers(true)}
           className="w-full mb-4 px-6 py-3 font-semibold text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer"
@@ -809,9 +2237,19 @@ export default function App() {
         </button>
       )}
 
+      {prefetchEnabled && prefetchStatus === 'ready' && (
+        <button
+          onClick={beginPrefetchedQuiz}
+          className="w-full mb-4 px-6 py-3 font-semibold text-white bg-green-600 rounded-lg shadow-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 cursor-pointer"
+        >
+          Next innings ready — Start now 🏏
+        </button>
+      )}
+
       <button
         onClick={() => {
           // Reset all state to start over
+          abandonGeneration();
           setQuestions(null);
           setIsSubmitted(false);
           setUserAnswers({});
@@ -824,14 +2262,25 @@ export default function App() {
       >
         Take Another Quiz
       </button>
+
+      <label className="mt-4 flex items-center justify-center gap-2 text-sm text-gray-600 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={prefetchEnabled}
+          onChange={(e) => togglePrefetch(e.target.checked)}
+        />
+        Prepare the next quiz with these settings while I review
+        {prefetchEnabled && prefetchStatus === 'loading' && <span className="text-gray-500">(preparing…)</span>}
+        {prefetchEnabled && prefetchStatus === 'error' && <span className="text-red-600">(couldn't prepare)</span>}
+      </label>
     </div>
   );
 
   /**
-   * Renders the full answers review for MCQs
+   * Renders the full answers review
    */
   const renderAnswersPage = () => {
-    if (!questions || questions.questionType !== 'MCQ') return null;
+    if (!questions || (gradableCount === 0 && evaluations.length === 0)) return null;
 
     return (
       <div className="w-full max-w-3xl p-8 space-y-6 bg-white shadow-2xl rounded-2xl">
@@ -845,78 +2294,43 @@ export default function App() {
           </button>
         </div>
 
-        <div className="space-y-6">
-          {questions.QuestionArray.map((qItem, index) => {
-            const correctLetter = questions.AnswerArray[index];
-            const correctOption = qItem.Options.find(opt => opt.startsWith(`${correctLetter}`)) || '';
-            const userOption = userAnswers[index];
-            const isCorrect = userOption && userOption.startsWith(correctLetter);
-            const spentMs = (perQuestionDurationsMs[index] || 0);
-
-            return (
-              <div key={index} className="p-5 border border-gray-200 rounded-xl">
-                <div className="flex items-start justify-between">
-                  <div className="text-lg font-semibold text-gray-900">
-                    <span className="mr-2 text-gray-500">{index + 1}.</span>
-                    <span className="align-middle">
-                      {renderRichQuestionText(qItem.Q)}
-                    </span>
-                  </div>
-                  <span className={`ml-4 px-3 py-1 text-xs font-semibold rounded-full ${isCorrect ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
-                    {isCorrect ? 'Correct' : 'Incorrect'}
-                  </span>
-                </div>
-
-                <div className="mt-2 text-sm text-gray-600">Time spent: {formatDuration(spentMs)}</div>
+        {gradableCount > 0 && <ScoreBreakdown summary={scoreSummary} scheme={markingScheme} />}
+        <p className="text-sm text-gray-600">{describeFocusReport({ mode: awayTimingMode, log: focusLog })}</p>
+        <CalibrationBreakdown report={computeCalibration(quizItems, userAnswers, confidence)} />
 
-                <div className="mt-4 space-y-2">
-                  {qItem.Options.map((opt, i) => {
-                    const isTheCorrect = opt === correctOption;
-                    const isUserChoice = opt === userOption;
-                    return (
-                      <div
-                        key={i}
-                        className={`p-3 rounded-lg border text-sm
-                          ${isTheCorrect ? 'border-green-400 bg-green-50' : 'border-gray-200 bg-white'}
-                          ${isUserChoice && !isTheCorrect ? 'border-red-300 bg-red-50' : ''}
-                        `}
-                      >
-                        <span>{opt}</span>
-                        {isTheCorrect && <span className="ml-2 text-green-700 font-medium">(Correct)</span>}
-                        {isUserChoice && !isTheCorrect && <span className="ml-2 text-red-700">(Your choice)</span>}
-                      </div>
-                    );
-                  })}
-                </div>
+        <div className="space-y-6">
+          {quizItems.map((item, index) => (
+            <AnswerReviewCard
+              key={index}
+              index={index}
+              item={item}
+              userAnswer={userAnswers[index]}
+              marks={markItem(item, userAnswers[index], markingScheme)}
+              evaluation={evaluations.find((ev) => ev.index === index)}
+            >
+              <div className="mt-2 text-sm text-gray-600">
+                Time spent: {formatDuration(perQuestionDurationsMs[index] || 0)}
+                {confidence[index] && <span className="ml-2">· Confidence: {CONFIDENCE_LABELS[confidence[index]]}</span>}
+                {focusLog[index] && <span className="ml-2 text-amber-700">· {describeFocusLosses(focusLog[index])}</span>}
               </div>
-            );
-          })}
+              {item.type !== 'Subjective' && (
+                <ExplanationPanel
+                  explanation={explanations[index]}
+                  status={explanationStatus[explanationKey(null, index)]}
+                  onExplain={() => explainQuestion(index, item, userAnswers[index])}
+                />
+              )}
+              <BankToggle
+                inBank={bankIds.has(bankItemId(item))}
+                onToggle={() => toggleBankItem({ item, exam: quizConfig.exam, topic: effectiveTopic })}
+              />
+            </AnswerReviewCard>
+          ))}
         </div>
       </div>
     );
   };
 
-  /**
-   * Helper to calculate score for MCQ quizzes
-   */
-  const calculateScore = () => {
-    if (questions?.questionType !== 'MCQ') return 0;
-    
-    let score = 0;
-    questions.QuestionArray.forEach((_question, index) => {
-      // Assumes AnswerArray holds the correct letter, e.g., "B"
-      // Assumes userAnswers holds the selected option text, e.g., "B. Option 2"
-      // We just check if the user's answer string starts with the correct letter.
-      const correctAnswerLetter = questions.AnswerArray[index];
-      const userAnswer = userAnswers[index];
-      
-      if (userAnswer && userAnswer.startsWith(correctAnswerLetter)) {
-        score++;
-      }
-    });
-    return score;
-  };
-
   // --- Main Render Logic ---
 
   // Gate 1: Missing Supabase env config
@@ -952,7 +2366,7 @@ export default function App() {
               Step up to the crease—generate questions, practice your shots, and review your innings with timing insights.
             </p>
             <ul className="mt-6 space-y-2 text-gray-700 list-disc ml-5">
-              <li>MCQ and Subjective modes</li>
+              <li>MCQ, multi-select, true/false, numeric, assertion–reason and subjective modes</li>
               <li>Per-question and total timers</li>
               <li>Answer review with correctness highlights</li>
             </ul>
@@ -998,6 +2412,11 @@ export default function App() {
                   placeholder="••••••••"
                 />
               </div>
+              {isMockBackendActive() && authMode === 'signIn' && (
+                <div className="text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-3">
+                  Mock backend is on. Sign in with the dev admin account ({adminEmail}) to work offline.
+                </div>
+              )}
               {authError && <p className="text-sm text-red-600">{authError}</p>}
               {authInfo && (
                 <div className="text-sm text-green-800 bg-green-50 border border-green-200 rounded-md p-3">
@@ -1041,8 +2460,16 @@ export default function App() {
         userEmail={session?.user?.email || ''}
         userName={(session?.user as any)?.user_metadata?.full_name || (session?.user as any)?.user_metadata?.name || ''}
         onShowCreate={goHome}
+        onShowImport={() => setShowImport(true)}
+        onShowTemplates={() => setShowTemplates(true)}
         onShowResults={openResultsPanel}
+        onShowAnalytics={openAnalytics}
         onSignOut={handleSignOut}
+        unsyncedCount={outboxEntries.length}
+        onShowUnsynced={() => setShowOutbox(true)}
+        revisionDueCount={revisionDueCount}
+        onStartRevision={startRevision}
+        revisionDisabled={!!questions && !isSubmitted}
       />
       <div className="flex items-center justify-center px-4 pb-8">
       {/* Show loading spinner */}
@@ -1054,31 +2481,73 @@ export default function App() {
               <div className="absolute inset-0 rounded-full bg-blue-400 opacity-30 animate-ping"></div>
               <div className="absolute inset-2 rounded-full bg-white"></div>
             </div>
-            <div>
+            <div className="flex-1">
               <div className="text-sm font-semibold text-gray-900">Creating your quiz… 🏏</div>
-              <div className="text-xs text-gray-600">Grab a sip of water or check your past innings while we set the field.</div>
+              <div className="text-xs text-gray-600">
+                {generationRetry
+                  ? formatRetryAttempt(generationRetry)
+                  : 'Grab a sip of water or check your past innings while we set the field.'}
+              </div>
             </div>
+            <button
+              onClick={cancelGeneration}
+              className="self-start px-2 py-1 text-xs font-medium text-gray-600 rounded-md hover:bg-gray-100 hover:text-red-600 cursor-pointer"
+            >
+              Cancel
+            </button>
           </div>
-          <div className="mt-3 h-2 w-full bg-gray-200 rounded-full overflow-hidden">
-            <div className="h-full w-1/3 bg-gradient-to-r from-blue-500 to-indigo-500 animate-[slide_1.2s_linear_infinite]"></div>
-          </div>
+          {generationProgress && generationProgress.total ? (
+            <>
+              <div className="mt-3 h-2 w-full bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-gradient-to-r from-blue-500 to-indigo-500 transition-all duration-300"
+                  style={{ width: `${(generationProgress.received / generationProgress.total) * 100}%` }}
+                ></div>
+              </div>
+              <div className="mt-1 text-xs text-gray-600">
+                {generationProgress.received} generated · {Math.max(0, generationProgress.total - generationProgress.received)} pending
+              </div>
+            </>
+          ) : (
+            <div className="mt-3 h-2 w-full bg-gray-200 rounded-full overflow-hidden">
+              <div className="h-full w-1/3 bg-gradient-to-r from-blue-500 to-indigo-500 animate-[slide_1.2s_linear_infinite]"></div>
+            </div>
+          )}
         </div>
       )}
       {/* No bottom-right toast for ready state; central card is sufficient */}
 
       {/* Show error message */}
-      {error && (
-        <div className="w-full max-w-md p-6 text-center bg-white border-2 border-red-300 shadow-lg rounded-2xl">
-          <h3 className="text-2xl font-bold text-red-600 mb-4">An Error Occurred</h3>
-          <p className="text-gray-700 bg-red-50 p-4 rounded-lg">{error}</p>
-          <button
-            onClick={() => setError(null)} // Just clear error, user stays on setup form
-            className="w-full mt-6 px-6 py-2 font-semibold text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700 cursor-pointer"
-          >
-            Try Again
-          </button>
-        </div>
-      )}
+      {error && (() => {
+        const copy = describeQuizError(errorKind);
+        const dismiss = () => { setError(null); setErrorKind(null); }; // user stays on setup form
+        const recover = () => {
+          if (copy.recovery === 'retry') void handleCreateQuiz();
+          else if (copy.recovery === 'sign-in') void handleSignOut();
+          dismiss();
+        };
+        return (
+          <div className="w-full max-w-md p-6 text-center bg-white border-2 border-red-300 shadow-lg rounded-2xl">
+            <h3 className="text-2xl font-bold text-red-600 mb-4">{copy.title}</h3>
+            {copy.hint && <p className="text-gray-700 mb-3">{copy.hint}</p>}
+            <p className="text-gray-700 bg-red-50 p-4 rounded-lg text-sm break-words">{error}</p>
+            <button
+              onClick={recover}
+              className="w-full mt-6 px-6 py-2 font-semibold text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700 cursor-pointer"
+            >
+              {copy.actionLabel}
+            </button>
+            {copy.recovery === 'retry' && (
+              <button
+                onClick={dismiss}
+                className="w-full mt-3 px-6 py-2 font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 cursor-pointer"
+              >
+                Change settings
+              </button>
+            )}
+          </div>
+        );
+      })()}
 
       {/* Show saved result detail page (if opened) */}
       {!error && resultDetailPage && renderSavedResultPage()}
@@ -1096,17 +2565,41 @@ export default function App() {
       {!error && !resultDetailPage && questions && isSubmitted && showAnswers && renderAnswersPage()}
       </div>
 
+      {isMockBackendActive() && (
+        <div className="fixed bottom-4 left-4 z-40 px-3 py-1 text-xs font-semibold text-amber-800 bg-amber-100 border border-amber-300 rounded-full shadow">
+          Mock backend
+        </div>
+      )}
+
       {/* Results panel */}
       {showResultsPanel && (
         <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
-          <div className="w-full max-w-5xl bg-white rounded-2xl shadow-2xl grid grid-cols-1 md:grid-cols-2 gap-0 overflow-hidden">
+          <div className="w-full max-w-5xl max-h-[90vh] overflow-y-auto bg-white rounded-2xl shadow-2xl grid grid-cols-1 md:grid-cols-2 gap-0">
             <div className="p-6 border-r border-gray-200">
               <div className="flex items-center justify-between mb-4">
                 <h3 className="text-xl font-semibold text-gray-900">Your Results</h3>
-                <button className="text-gray-600 hover:text-gray-900" onClick={() => setShowResultsPanel(false)}>✕</button>
+                <div className="flex items-center gap-3">
+                  <button className="text-sm font-medium text-blue-700 hover:underline cursor-pointer" onClick={() => void openAnalytics()}>
+                    View progress
+                  </button>
+                  <button className="text-gray-600 hover:text-gray-900" onClick={() => setShowResultsPanel(false)}>✕</button>
+                </div>
               </div>
-              {resultsLoading && <p className="text-sm text-gray-600">Loading…</p>}
+              <ResultsFilters query={resultsQuery} onApply={applyResultsQuery} />
+              <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-gray-600">Export matching results:</span>
+                <ExportButtons onExport={(format) => void exportFilteredResults(format)} disabled={exporting} />
+                {exporting && <span className="text-gray-500">Preparing…</span>}
+              </div>
+              {exportError && <p className="mb-2 text-sm text-red-600">{exportError}</p>}
+              {resultsLoading && <p className="text-sm text-gray-600">{resultsRetry ? formatRetryAttempt(resultsRetry) : 'Loading…'}</p>}
               {resultsError && <p className="text-sm text-red-600">{resultsError}</p>}
+              {!resultsLoading && results?.length === 0 && <p className="text-sm text-gray-600">No results match.</p>}
+              {!resultsLoading && resultsTruncated && (
+                <p className="mb-2 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-2">
+                  Only your newest {LOCAL_SEARCH_LIMIT} results were searched, so older matches aren't listed.
+                </p>
+              )}
               <ul className="divide-y divide-gray-200">
                 {(results ?? []).map((r) => (
                   <li key={r.id} className="py-3 cursor-pointer hover:bg-gray-50 px-2 rounded" onClick={() => loadResultDetail(r.id)}>
@@ -1114,6 +2607,13 @@ export default function App() {
                       <span className="font-medium text-gray-800">{r.topic}</span>
                       <span className="text-xs text-gray-500">{new Date(r.created_at).toLocaleString()}</span>
                     </div>
+                    {(r.score !== undefined || r.time_ms !== undefined) && (
+                      <div className="mt-1 text-xs text-gray-600">
+                        {r.score !== undefined && <span>Score {formatMarks(r.score)}</span>}
+                        {r.score !== undefined && r.time_ms !== undefined && <span> · </span>}
+                        {r.time_ms !== undefined && <span>{formatDuration(r.time_ms)}</span>}
+                      </div>
+                    )}
                   </li>
                 ))}
               </ul>
@@ -1141,7 +2641,7 @@ export default function App() {
               {selectedResult && (
                 <div className="space-y-3">
                   <div className="text-gray-800"><span className="font-semibold">Topic:</span> {selectedResult.topic}</div>
-                  <div className="text-gray-800"><span className="font-semibold">Score:</span> {selectedResult.solutions?.score}</div>
+                  <div className="text-gray-800"><span className="font-semibold">Score:</span> {formatSavedScore(selectedResult)}</div>
                   <div className="text-gray-800"><span className="font-semibold">Time:</span> {formatDuration(selectedResult.time_ms)}</div>
                   <div className="text-gray-500 text-sm">Created: {new Date(selectedResult.created_at).toLocaleString()}</div>
                 </div>
@@ -1150,6 +2650,105 @@ export default function App() {
           </div>
         </div>
       )}
+
+      {showImport && <ImportQuizDialog onImport={prepareCustomQuiz} onClose={() => setShowImport(false)} />}
+
+      {showTemplates && (
+        <QuizTemplatesDialog
+          templates={templates}
+          onStart={(template) => prepareCustomQuiz(template.quiz, template.name, template.exam)}
+          onEdit={editTemplate}
+          onDelete={(template) => userId && setTemplates(deleteTemplate(userId, template.id))}
+          onCreate={() => {
+            setShowTemplates(false);
+            setEditorTarget({ name: '', exam: quizConfig.exam, quiz: null, forReadyScreen: false });
+          }}
+          onClose={() => setShowTemplates(false)}
+        />
+      )}
+
+      {editorTarget && (
+        <QuizEditor
+          title={editorTarget.forReadyScreen ? 'Edit questions' : editorTarget.templateId ? 'Edit quiz' : 'New quiz'}
+          initialName={editorTarget.name}
+          initialItems={editorTarget.quiz ? getQuizItems(editorTarget.quiz) : []}
+          startLabel={editorTarget.forReadyScreen ? undefined : 'Save and take'}
+          onSave={saveEditedQuiz}
+          onClose={() => setEditorTarget(null)}
+        />
+      )}
+
+      {/* Progress dashboard */}
+      {showAnalytics && (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+          <div className="w-full max-w-5xl max-h-[90vh] overflow-y-auto p-6 bg-white rounded-2xl shadow-2xl">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-semibold text-gray-900">My progress</h3>
+              <button className="text-gray-600 hover:text-gray-900" onClick={closeAnalytics}>✕</button>
+            </div>
+            {analyticsProgress && (
+              <p className="text-sm text-gray-600">
+                {analyticsProgress.total > 0 ? `Loading results… ${analyticsProgress.loaded} / ${analyticsProgress.total}` : 'Loading results…'}
+              </p>
+            )}
+            {analyticsError && <p className="text-sm text-red-600">{analyticsError}</p>}
+            {!analyticsProgress && analyticsReport && <AnalyticsDashboard report={analyticsReport} />}
+          </div>
+        </div>
+      )}
+
+      {/* Unsynced results */}
+      {showOutbox && (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+          <div className="w-full max-w-lg p-6 bg-white rounded-2xl shadow-2xl">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-semibold text-gray-900">Unsynced results</h3>
+              <button className="text-gray-600 hover:text-gray-900" onClick={() => setShowOutbox(false)}>✕</button>
+            </div>
+            {outboxEntries.length === 0 ? (
+              <p className="text-sm text-gray-600">Everything is saved.</p>
+            ) : (
+              <ul className="space-y-3 max-h-96 overflow-y-auto">
+                {outboxEntries.map((entry) => (
+                  <li key={entry.idempotencyKey} className="p-3 border border-gray-200 rounded-lg text-sm">
+                    <div className="font-medium text-gray-900">{entry.payload.topic}</div>
+                    <div className="text-gray-500">
+                      Taken {new Date(entry.createdAt).toLocaleString()}
+                      {' · '}
+                      {entry.attempts === 0 ? 'not sent yet' : `${entry.attempts} attempt${entry.attempts === 1 ? '' : 's'}`}
+                    </div>
+                    {entry.lastError && <div className="mt-1 text-red-700 break-words">{entry.lastError}</div>}
+                    <div className="mt-2 flex gap-2">
+                      <button
+                        onClick={() => void syncOutbox(entry.idempotencyKey)}
+                        disabled={outboxSyncing}
+                        className="px-3 py-1 text-xs font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-400 cursor-pointer"
+                      >
+                        Retry
+                      </button>
+                      <button
+                        onClick={() => discardQueuedResult(entry.idempotencyKey)}
+                        className="px-3 py-1 text-xs font-medium text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100 cursor-pointer"
+                      >
+                        Discard
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {outboxEntries.length > 1 && (
+              <button
+                onClick={() => void syncOutbox()}
+                disabled={outboxSyncing}
+                className="w-full mt-4 px-4 py-2 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 cursor-pointer"
+              >
+                {outboxSyncing ? 'Syncing…' : 'Retry all'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -1219,6 +2818,145 @@ function formatDuration(ms: number) {
   return `${mm}:${ss}`;
 }
 
+// Saved results only keep "exam : topic"
+function splitSavedTopic(saved: string): { exam: string; topic: string } {
+  const [exam, ...topic] = saved.split(' : ');
+  return { exam, topic: topic.join(' : ') };
+}
+
+// Older results saved only the total, without its maximum
+function formatSavedScore(detail: ResultDetail) {
+  const solutions = detail.solutions;
+  if (!solutions) return '—';
+  const total = solutions.maxScore !== undefined ? `${formatMarks(solutions.score)} / ${solutions.maxScore}` : formatMarks(solutions.score);
+  return solutions.written ? `${total} (written ${formatMarks(solutions.written.marks)} / ${solutions.written.max})` : total;
+}
+
+// Explanation requests are tracked per question of the live quiz or of a saved result
+function explanationKey(resultId: string | null, index: number) {
+  return `${resultId ?? 'live'}:${index}`;
+}
+
+function describeSubmission(timing: SubmissionTiming) {
+  if (timing.limitMs === null) return 'Untimed';
+  if (timing.submittedBy === 'timeout') return `Submitted automatically when the ${formatDuration(timing.limitMs)} limit ran out`;
+  return `Submitted with ${formatDuration(timing.remainingMs ?? 0)} left of ${formatDuration(timing.limitMs)}`;
+}
+
+function formatRetryAttempt(info: RetryAttempt) {
+  return `Waking up the server, attempt ${info.attempt}/${info.maxAttempts}… (${info.reason})`;
+}
+
+// User-facing copy and recovery action for each generation failure kind
+function describeQuizError(kind: QuizApiErrorKind | null): {
+  title: string;
+  hint: string;
+  actionLabel: string;
+  recovery: 'retry' | 'sign-in' | 'dismiss';
+} {
+  switch (kind) {
+    case 'auth':
+      return { title: 'Session expired', hint: 'Please sign in again to keep practising.', actionLabel: 'Sign in again', recovery: 'sign-in' };
+    case 'quota':
+      return { title: 'Generation limit reached', hint: "You've used up your quiz generations for now. Take a break and try again later.", actionLabel: 'Back to setup', recovery: 'dismiss' };
+    case 'request':
+      return { title: 'Quiz settings rejected', hint: 'The server could not accept these settings. Adjust them and try again.', actionLabel: 'Edit settings', recovery: 'dismiss' };
+    case 'malformed':
+      return { title: 'The quiz came back garbled', hint: 'The generated questions were incomplete. Generating again usually fixes this.', actionLabel: 'Regenerate', recovery: 'retry' };
+    case 'server':
+      return { title: 'Server error', hint: 'Something went wrong on our side while setting the field.', actionLabel: 'Retry', recovery: 'retry' };
+    case 'network':
+      return { title: 'Connection problem', hint: 'We could not reach the server. Check your internet connection.', actionLabel: 'Retry', recovery: 'retry' };
+    default:
+      return { title: 'An Error Occurred', hint: '', actionLabel: 'Try Again', recovery: 'dismiss' };
+  }
+}
+
+/**
+ * Guess / Unsure / Sure toggle shown under auto-graded questions
+ */
+const ConfidencePicker = ({ value, onChange }: { value: Confidence | undefined; onChange: (level: Confidence) => void }) => (
+  <div className="mt-4 flex items-center gap-2 text-sm">
+    <span className="text-gray-600">How sure are you?</span>
+    {CONFIDENCE_LEVELS.map((level) => (
+      <button
+        key={level}
+        type="button"
+        onClick={() => onChange(level)}
+        aria-pressed={value === level}
+        className={`px-3 py-1 rounded-full border font-medium cursor-pointer transition-colors
+          ${value === level ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}
+        `}
+      >
+        {CONFIDENCE_LABELS[level]}
+      </button>
+    ))}
+  </div>
+);
+
+/**
+ * Accuracy per confidence level, plus the lucky guesses and confident
+ * mistakes by question number
+ */
+const CalibrationBreakdown = ({ report }: { report: CalibrationReport }) => {
+  const rated = CONFIDENCE_LEVELS.some((level) => report.byLevel[level].answered > 0);
+  if (!rated) return null;
+  const listQuestions = (indices: number[]) => indices.length > 0 ? indices.map((i) => `Q${i + 1}`).join(', ') : 'none';
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-xl">
+      <h3 className="text-sm font-semibold text-gray-800 mb-3">Confidence calibration</h3>
+      <div className="grid grid-cols-3 gap-2 text-sm">
+        {CONFIDENCE_LEVELS.map((level) => {
+          const { answered, correct } = report.byLevel[level];
+          return (
+            <div key={level} className="p-2 rounded-lg bg-gray-50 border border-gray-200">
+              <div className="text-gray-500">{CONFIDENCE_LABELS[level]}</div>
+              <div className="font-semibold text-gray-900">
+                {answered > 0 ? `${Math.round((correct / answered) * 100)}%` : '—'}
+              </div>
+              <div className="text-xs text-gray-500">{correct} / {answered} correct</div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="mt-3 space-y-1 text-sm">
+        <p><span className="font-medium text-green-700">Lucky guesses:</span> {listQuestions(report.luckyGuesses)}</p>
+        <p><span className="font-medium text-red-700">Confident mistakes:</span> {listQuestions(report.confidentMistakes)}</p>
+        {report.unrated > 0 && <p className="text-xs text-gray-500">{report.unrated} answered question{report.unrated === 1 ? '' : 's'} not rated</p>}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Raw score, net score, accuracy and attempted count for the objective part
+ * of a quiz, with the marking scheme they were computed under
+ */
+const ScoreBreakdown = ({ summary, scheme }: { summary: ScoreSummary; scheme: MarkingScheme }) => (
+  <div className="mt-3">
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+      <div className="p-2 rounded-lg bg-gray-50 border border-gray-200">
+        <div className="text-gray-500">Net score</div>
+        <div className="font-semibold text-gray-900">{formatMarks(summary.net)} / {summary.max}</div>
+      </div>
+      <div className="p-2 rounded-lg bg-gray-50 border border-gray-200">
+        <div className="text-gray-500">Raw score</div>
+        <div className="font-semibold text-gray-900">{formatMarks(summary.raw)}</div>
+      </div>
+      <div className="p-2 rounded-lg bg-gray-50 border border-gray-200">
+        <div className="text-gray-500">Accuracy</div>
+        <div className="font-semibold text-gray-900">{Math.round(summary.accuracy * 100)}%</div>
+      </div>
+      <div className="p-2 rounded-lg bg-gray-50 border border-gray-200">
+        <div className="text-gray-500">Attempted</div>
+        <div className="font-semibold text-gray-900">{summary.attempted} / {summary.gradable}</div>
+      </div>
+    </div>
+    <p className="mt-2 text-xs text-gray-500">Marking: {scheme.label}</p>
+  </div>
+);
+
 function resolveTopic(cfg: { topic: string; exam: string }) {
   const raw = (cfg.topic || '').trim();
   const lower = raw.toLowerCase();
@@ -1297,3 +3035,365 @@ const SubjectiveQuestionDisplay = ({
     </div>
   );
 };
+
+/**
+ * Renders a multiple-correct MCQ; any number of options can be ticked
+ */
+const MultiSelectQuestionDisplay = ({
+  question,
+  selectedAnswer,
+  onAnswerChange,
+}: {
+  question: McqQuestion;
+  selectedAnswer: string;
+  onAnswerChange: (value: string) => void;
+}) => {
+  const selected = decodeMultiSelect(selectedAnswer);
+  const toggle = (letter: string) => {
+    const next = selected.includes(letter) ? selected.filter((l) => l !== letter) : [...selected, letter];
+    onAnswerChange(encodeMultiSelect(next));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="text-xl font-semibold">
+        {renderRichQuestionText(question.Q)}
+      </div>
+      <p className="text-sm text-gray-600">Select all that apply.</p>
+      <div className="space-y-3">
+        {question.Options.map((option, index) => {
+          const letter = optionLetter(option);
+          const isSelected = selected.includes(letter);
+          return (
+            <button
+              key={index}
+              onClick={() => toggle(letter)}
+              role="checkbox"
+              aria-checked={isSelected}
+              className={`
+                w-full p-4 text-left border rounded-lg text-gray-700 flex items-center gap-3
+                transition-all duration-200
+                ${isSelected
+                  ? 'bg-blue-100 border-blue-500 ring-2 ring-blue-400'
+                  : 'bg-white border-gray-300 hover:bg-gray-50'}
+              `}
+            >
+              <span className={`h-4 w-4 shrink-0 rounded border ${isSelected ? 'bg-blue-600 border-blue-600' : 'border-gray-400'}`}></span>
+              {option}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Renders a true/false statement
+ */
+const TrueFalseQuestionDisplay = ({
+  question,
+  selectedAnswer,
+  onAnswerSelect,
+}: {
+  question: string;
+  selectedAnswer: string;
+  onAnswerSelect: (value: string) => void;
+}) => {
+  return (
+    <div className="space-y-4">
+      <div className="text-xl font-semibold">
+        {renderRichQuestionText(question)}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {['True', 'False'].map((option) => {
+          const isSelected = selectedAnswer === option;
+          return (
+            <button
+              key={option}
+              onClick={() => onAnswerSelect(option)}
+              className={`
+                p-4 text-center font-semibold border rounded-lg text-gray-700
+                transition-all duration-200
+                ${isSelected
+                  ? 'bg-blue-100 border-blue-500 ring-2 ring-blue-400'
+                  : 'bg-white border-gray-300 hover:bg-gray-50'}
+              `}
+            >
+              {option}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Renders a numeric-answer question with an optional unit
+ */
+const NumericQuestionDisplay = ({
+  question,
+  currentAnswer,
+  onAnswerChange,
+}: {
+  question: NumericQuestion;
+  currentAnswer: string;
+  onAnswerChange: (value: string) => void;
+}) => {
+  return (
+    <div className="space-y-4">
+      <div className="text-xl font-semibold">
+        {renderRichQuestionText(question.Q)}
+      </div>
+      <div className="flex items-center gap-3">
+        <input
+          type="text"
+          inputMode="decimal"
+          value={currentAnswer || ''}
+          onChange={(e) => onAnswerChange(e.target.value)}
+          className="w-48 px-4 py-3 text-lg text-gray-900 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+          placeholder="Your answer"
+        />
+        {question.Unit && <span className="text-gray-700">{question.Unit}</span>}
+      </div>
+      {currentAnswer && parseNumericAnswer(currentAnswer) === null && (
+        <p className="text-sm text-red-600">Enter a number, e.g. 42 or -3.5</p>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Renders a UPSC-style Assertion–Reason question with the standard options
+ */
+const AssertionReasonQuestionDisplay = ({
+  question,
+  selectedAnswer,
+  onAnswerSelect,
+}: {
+  question: AssertionReasonQuestion;
+  selectedAnswer: string;
+  onAnswerSelect: (value: string) => void;
+}) => {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2 text-lg text-gray-800">
+        <p><span className="font-semibold">Assertion (A):</span> {question.Assertion}</p>
+        <p><span className="font-semibold">Reason (R):</span> {question.Reason}</p>
+      </div>
+      <div className="space-y-3">
+        {ASSERTION_REASON_OPTIONS.map((option, index) => {
+          const isSelected = selectedAnswer === option;
+          return (
+            <button
+              key={index}
+              onClick={() => onAnswerSelect(option)}
+              className={`
+                w-full p-4 text-left border rounded-lg text-gray-700
+                transition-all duration-200
+                ${isSelected
+                  ? 'bg-blue-100 border-blue-500 ring-2 ring-blue-400'
+                  : 'bg-white border-gray-300 hover:bg-gray-50'}
+              `}
+            >
+              {option}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Correct answers per attempt, from the first attempt to the one on screen.
+ * Each retry only contains the previous attempt's mistakes, so its correct
+ * answers are questions fixed since then.
+ */
+const AttemptHistory = ({ attempts, onOpen }: { attempts: AttemptSummary[]; onOpen: (id: string) => void }) => (
+  <div className="p-4 rounded-lg border border-gray-200 bg-gray-50">
+    <div className="text-sm font-semibold text-gray-800 mb-2">Attempts</div>
+    <ol className="space-y-1 text-sm">
+      {attempts.map((attempt, i) => {
+        const isCurrent = i === attempts.length - 1;
+        return (
+          <li key={attempt.id} className="flex items-center justify-between gap-4">
+            <button
+              onClick={() => onOpen(attempt.id)}
+              disabled={isCurrent}
+              className="text-left text-blue-700 hover:underline disabled:text-gray-900 disabled:no-underline disabled:font-semibold cursor-pointer disabled:cursor-default"
+            >
+              {i === 0 ? 'First attempt' : `Retry ${i}`} · {new Date(attempt.createdAt).toLocaleDateString()}
+            </button>
+            <span className="text-gray-700">
+              {i === 0
+                ? `${attempt.correct} / ${attempt.questions} correct`
+                : `fixed ${attempt.correct} of ${attempt.questions}`}
+            </span>
+          </li>
+        );
+      })}
+    </ol>
+  </div>
+);
+
+const ExportButtons = ({ onExport, disabled }: { onExport: (format: ExportFormat) => void; disabled?: boolean }) => (
+  <>
+    {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((format) => (
+      <button
+        key={format}
+        onClick={() => onExport(format)}
+        disabled={disabled}
+        className="px-2.5 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 cursor-pointer"
+      >
+        {EXPORT_FORMAT_LABELS[format]}
+      </button>
+    ))}
+  </>
+);
+
+// "Save to my bank" for one reviewed question; pressing it again takes it out
+const BankToggle = ({ inBank, onToggle }: { inBank: boolean; onToggle: () => void }) => (
+  <button
+    onClick={onToggle}
+    className={`mt-3 px-3 py-1.5 text-sm font-medium rounded-lg border cursor-pointer
+      ${inBank ? 'text-amber-800 bg-amber-50 border-amber-300 hover:bg-amber-100' : 'text-gray-700 bg-white border-gray-300 hover:bg-gray-50'}`}
+  >
+    {inBank ? '★ In my bank' : '☆ Save to my bank'}
+  </button>
+);
+
+/**
+ * One question in the answers review: the question, the user's answer and,
+ * for auto-graded types, the correct answer and a Correct/Incorrect badge
+ */
+const AnswerReviewCard = ({
+  index,
+  item,
+  userAnswer,
+  marks,
+  evaluation,
+  children,
+}: {
+  index: number;
+  item: QuizItem;
+  userAnswer: string | undefined;
+  marks?: number | null; // under the quiz's marking scheme, when known
+  evaluation?: SubjectiveEvaluation;
+  children?: React.ReactNode;
+}) => {
+  const verdict = scoreItem(item, userAnswer);
+  const hasAnswer = !!userAnswer && userAnswer.trim().length > 0;
+
+  const renderOptions = (options: string[], isCorrectOption: (opt: string) => boolean, isChosen: (opt: string) => boolean) => (
+    <div className="mt-4 space-y-2">
+      {options.map((opt, i) => {
+        const isTheCorrect = isCorrectOption(opt);
+        const isUserChoice = isChosen(opt);
+        return (
+          <div
+            key={i}
+            className={`p-3 rounded-lg border text-sm
+              ${isTheCorrect ? 'border-green-400 bg-green-50' : 'border-gray-200 bg-white'}
+              ${isUserChoice && !isTheCorrect ? 'border-red-300 bg-red-50' : ''}
+            `}
+          >
+            <span>{opt}</span>
+            {isTheCorrect && <span className="ml-2 text-green-700 font-medium">(Correct)</span>}
+            {isUserChoice && !isTheCorrect && <span className="ml-2 text-red-700">(Your choice)</span>}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderAnswerLines = (correct: string) => (
+    <div className="mt-4 space-y-1 text-sm">
+      <div><span className="font-medium text-gray-700">Correct answer:</span> <span className="text-green-700 font-medium">{correct}</span></div>
+      <div><span className="font-medium text-gray-700">Your answer:</span> {hasAnswer ? userAnswer : '— Not answered —'}</div>
+    </div>
+  );
+
+  let heading: React.ReactNode;
+  let body: React.ReactNode;
+  switch (item.type) {
+    case 'MCQ': {
+      const correctOption = item.question.Options.find((opt) => opt.startsWith(item.answer)) || '';
+      heading = renderRichQuestionText(item.question.Q);
+      body = renderOptions(item.question.Options, (opt) => opt === correctOption, (opt) => opt === userAnswer);
+      break;
+    }
+    case 'AssertionReason': {
+      const correctOption = ASSERTION_REASON_OPTIONS.find((opt) => opt.startsWith(item.answer)) || '';
+      heading = (
+        <div className="space-y-1">
+          <p><span className="font-semibold">A:</span> {item.question.Assertion}</p>
+          <p><span className="font-semibold">R:</span> {item.question.Reason}</p>
+        </div>
+      );
+      body = renderOptions(ASSERTION_REASON_OPTIONS, (opt) => opt === correctOption, (opt) => opt === userAnswer);
+      break;
+    }
+    case 'MultiSelect': {
+      const chosen = decodeMultiSelect(userAnswer);
+      heading = renderRichQuestionText(item.question.Q);
+      body = renderOptions(
+        item.question.Options,
+        (opt) => item.answer.includes(optionLetter(opt)),
+        (opt) => chosen.includes(optionLetter(opt)),
+      );
+      break;
+    }
+    case 'TrueFalse':
+      heading = renderRichQuestionText(item.question);
+      body = renderAnswerLines(item.answer ? 'True' : 'False');
+      break;
+    case 'Numeric': {
+      const unit = item.question.Unit ? ` ${item.question.Unit}` : '';
+      const tolerance = item.tolerance > 0 ? ` (± ${item.tolerance})` : '';
+      heading = renderRichQuestionText(item.question.Q);
+      body = renderAnswerLines(`${item.answer}${unit}${tolerance}`);
+      break;
+    }
+    case 'Subjective':
+      heading = renderRichQuestionText(item.question);
+      body = (
+        <div className="mt-2">
+          <div className="text-sm font-medium text-gray-700 mb-1">Your answer:</div>
+          <div className="text-sm text-gray-800 bg-gray-50 p-3 rounded border" style={{ whiteSpace: 'pre-wrap' }}>
+            {hasAnswer ? userAnswer : '— No answer provided —'}
+          </div>
+          {evaluation && <SubjectiveEvaluationPanel evaluation={evaluation} />}
+        </div>
+      );
+      break;
+  }
+
+  return (
+    <div className="p-5 border border-gray-200 rounded-xl">
+      <div className="flex items-start justify-between">
+        <div className="text-lg font-semibold text-gray-900">
+          <span className="mr-2 text-gray-500">{index + 1}.</span>
+          <span className="align-middle">{heading}</span>
+        </div>
+        {verdict !== null && (
+          <div className="ml-4 flex items-center gap-2 shrink-0">
+            {typeof marks === 'number' && (
+              <span className="text-xs font-semibold text-gray-600">{marks > 0 ? '+' : ''}{formatMarks(marks)}</span>
+            )}
+            {!verdict && typeof marks === 'number' && marks > 0 ? (
+              <span className="px-3 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">Partly correct</span>
+            ) : (
+              <span className={`px-3 py-1 text-xs font-semibold rounded-full ${verdict ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                {verdict ? 'Correct' : 'Incorrect'}
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+      {children}
+      {body}
+    </div>
+  );
+};
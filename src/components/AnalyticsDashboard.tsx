@@ -0,0 +1,186 @@
+import { localDayKey, type AccuracyGroup, type AnalyticsReport, type AttemptPoint } from '../lib/analytics';
+
+const HEATMAP_WEEKS = 26;
+
+// Progress charts across saved results. Charts are plain SVG and divs.
+export default function AnalyticsDashboard({ report }: { report: AnalyticsReport }) {
+  const { points } = report;
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-600">No saved practises yet. Finish a quiz to start tracking progress.</p>;
+  }
+
+  const attempted = points.reduce((sum, p) => sum + p.attempted, 0);
+  const overallAccuracy = attempted > 0 ? points.reduce((sum, p) => sum + p.correct, 0) / attempted : null;
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+        <Stat label="Practises" value={String(points.length)} />
+        <Stat label="Practice days" value={String(Object.keys(report.practiceDays).length)} />
+        <Stat label="Overall accuracy" value={overallAccuracy === null ? '—' : `${Math.round(overallAccuracy * 100)}%`} />
+        <Stat
+          label="Avg time / question"
+          value={report.averageTimePerQuestionMs === null ? '—' : `${Math.round(report.averageTimePerQuestionMs / 1000)}s`}
+        />
+      </div>
+
+      <section>
+        <h4 className="text-sm font-semibold text-gray-800 mb-2">Score and accuracy over time</h4>
+        <TrendChart points={points} />
+      </section>
+
+      <section>
+        <h4 className="text-sm font-semibold text-gray-800 mb-2">Practice days</h4>
+        <CalendarHeatmap days={report.practiceDays} />
+      </section>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <AccuracyBars title="Accuracy by exam" groups={report.byExam} />
+        <AccuracyBars title="Accuracy by topic" groups={report.byTopic.slice(0, 8)} />
+        <AccuracyBars title="Accuracy by difficulty" groups={report.byDifficulty} />
+      </div>
+    </div>
+  );
+}
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <div className="p-2 rounded-lg bg-gray-50 border border-gray-200">
+    <div className="text-gray-500">{label}</div>
+    <div className="font-semibold text-gray-900">{value}</div>
+  </div>
+);
+
+// Score (blue) and accuracy (green) per practise, both 0–100%
+function TrendChart({ points }: { points: AttemptPoint[] }) {
+  const width = 640;
+  const height = 200;
+  const pad = { top: 10, right: 10, bottom: 24, left: 34 };
+  const innerW = width - pad.left - pad.right;
+  const innerH = height - pad.top - pad.bottom;
+  const x = (i: number) => pad.left + (points.length === 1 ? innerW / 2 : (i / (points.length - 1)) * innerW);
+  const y = (pct: number) => pad.top + innerH - (Math.min(100, Math.max(0, pct)) / 100) * innerH;
+
+  // Breaks the line where a practise had nothing auto-graded
+  const path = (value: (p: AttemptPoint) => number | null) => {
+    let d = '';
+    let penDown = false;
+    points.forEach((p, i) => {
+      const v = value(p);
+      if (v === null) {
+        penDown = false;
+        return;
+      }
+      d += `${penDown ? 'L' : 'M'}${x(i).toFixed(1)},${y(v).toFixed(1)} `;
+      penDown = true;
+    });
+    return d.trim();
+  };
+  const series = [
+    { label: 'Score', color: '#2563eb', value: (p: AttemptPoint) => p.scorePct },
+    { label: 'Accuracy', color: '#16a34a', value: (p: AttemptPoint) => (p.accuracy === null ? null : p.accuracy * 100) },
+  ];
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Score and accuracy trend">
+        {[0, 25, 50, 75, 100].map((tick) => (
+          <g key={tick}>
+            <line x1={pad.left} x2={width - pad.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+            <text x={pad.left - 6} y={y(tick) + 4} textAnchor="end" fontSize="10" fill="#6b7280">{tick}%</text>
+          </g>
+        ))}
+        <text x={pad.left} y={height - 6} fontSize="10" fill="#6b7280">{new Date(points[0].date).toLocaleDateString()}</text>
+        <text x={width - pad.right} y={height - 6} textAnchor="end" fontSize="10" fill="#6b7280">
+          {new Date(points[points.length - 1].date).toLocaleDateString()}
+        </text>
+        {series.map((s) => (
+          <g key={s.label}>
+            <path d={path(s.value)} fill="none" stroke={s.color} strokeWidth="2" />
+            {points.map((p, i) => {
+              const v = s.value(p);
+              return v === null ? null : (
+                <circle key={p.id} cx={x(i)} cy={y(v)} r="3" fill={s.color}>
+                  <title>{`${s.label}: ${Math.round(v)}% · ${p.exam} : ${p.topic} · ${new Date(p.date).toLocaleString()}`}</title>
+                </circle>
+              );
+            })}
+          </g>
+        ))}
+      </svg>
+      <div className="mt-1 flex gap-4 text-xs text-gray-600">
+        {series.map((s) => (
+          <span key={s.label} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-0.5" style={{ backgroundColor: s.color }} />
+            {s.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// One square per day for the last HEATMAP_WEEKS weeks, darker for more practises
+function CalendarHeatmap({ days }: { days: Record<string, number> }) {
+  const cell = 12;
+  const gap = 2;
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  // Start on the Sunday HEATMAP_WEEKS - 1 weeks before this week's
+  const start = new Date(today);
+  start.setDate(today.getDate() - today.getDay() - (HEATMAP_WEEKS - 1) * 7);
+
+  const cells: { key: string; week: number; weekday: number; count: number }[] = [];
+  for (const d = new Date(start); d <= today; d.setDate(d.getDate() + 1)) {
+    const week = Math.floor(cells.length / 7);
+    cells.push({ key: localDayKey(d), week, weekday: d.getDay(), count: days[localDayKey(d)] || 0 });
+  }
+  const shade = (count: number) =>
+    count === 0 ? '#f3f4f6' : count === 1 ? '#bbf7d0' : count === 2 ? '#4ade80' : count <= 4 ? '#16a34a' : '#166534';
+
+  return (
+    <svg
+      viewBox={`0 0 ${HEATMAP_WEEKS * (cell + gap)} ${7 * (cell + gap)}`}
+      className="w-full max-w-xl h-auto"
+      role="img"
+      aria-label="Practice days calendar"
+    >
+      {cells.map((c) => (
+        <rect
+          key={c.key}
+          x={c.week * (cell + gap)}
+          y={c.weekday * (cell + gap)}
+          width={cell}
+          height={cell}
+          rx="2"
+          fill={shade(c.count)}
+        >
+          <title>{`${c.key}: ${c.count} practise${c.count === 1 ? '' : 's'}`}</title>
+        </rect>
+      ))}
+    </svg>
+  );
+}
+
+function AccuracyBars({ title, groups }: { title: string; groups: AccuracyGroup[] }) {
+  return (
+    <section>
+      <h4 className="text-sm font-semibold text-gray-800 mb-2">{title}</h4>
+      <div className="space-y-2">
+        {groups.map((g) => (
+          <div key={g.label} className="text-sm">
+            <div className="flex justify-between gap-2 text-gray-700">
+              <span className="truncate" title={g.label}>{g.label}</span>
+              <span className="shrink-0">
+                {g.accuracy === null ? '—' : `${Math.round(g.accuracy * 100)}%`}
+                <span className="text-gray-400"> · {g.quizzes}</span>
+              </span>
+            </div>
+            <div className="mt-1 h-1.5 w-full bg-gray-200 rounded-full overflow-hidden">
+              <div className="h-full bg-green-500" style={{ width: `${(g.accuracy ?? 0) * 100}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,45 @@
+import type { Explanation } from '../services/explanationApi';
+
+// "Explain" button for one reviewed question, replaced by the explanation once loaded
+export default function ExplanationPanel({
+  explanation,
+  status,
+  onExplain,
+}: {
+  explanation?: Explanation;
+  status?: 'loading' | 'error';
+  onExplain: () => void;
+}) {
+  if (!explanation) {
+    return (
+      <div className="mt-3 flex items-center gap-3 text-sm">
+        <button
+          onClick={onExplain}
+          disabled={status === 'loading'}
+          className="px-3 py-1.5 font-medium text-indigo-700 bg-indigo-50 border border-indigo-200 rounded-lg hover:bg-indigo-100 disabled:opacity-60 disabled:cursor-not-allowed cursor-pointer"
+        >
+          {status === 'loading' ? 'Explaining…' : 'Explain'}
+        </button>
+        {status === 'error' && <span className="text-red-600">Couldn't load an explanation. Try again.</span>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 p-4 rounded-lg border border-indigo-200 bg-indigo-50/50 space-y-3 text-sm">
+      <div>
+        <div className="font-medium text-gray-700 mb-1">Why this is correct</div>
+        <p className="text-gray-800">{explanation.whyCorrect}</p>
+      </div>
+      {explanation.whyChosenWrong && (
+        <div>
+          <div className="font-medium text-gray-700 mb-1">Why your answer is wrong</div>
+          <p className="text-gray-800">{explanation.whyChosenWrong}</p>
+        </div>
+      )}
+      {explanation.takeaway && (
+        <p className="text-indigo-900"><span className="font-medium">Takeaway:</span> {explanation.takeaway}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import type { ApiResponseData } from '../types/quiz';
+import { MAX_IMPORT_BYTES, parseImportFile, type ImportPreview } from '../lib/quizImport';
+
+// Picks a JSON or CSV question file, previews every row with its problems,
+// and hands back the valid questions
+export default function ImportQuizDialog({
+  onImport,
+  onClose,
+}: {
+  onImport: (quiz: ApiResponseData, name: string) => void;
+  onClose: () => void;
+}) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    setPreview(null);
+    setError(null);
+    setFileName(file?.name ?? null);
+    if (!file) return;
+    if (file.size > MAX_IMPORT_BYTES) {
+      setError('The file is larger than 1 MB');
+      return;
+    }
+    try {
+      setPreview(parseImportFile(file.name, await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't read the file");
+    }
+  };
+
+  const invalid = preview?.rows.filter((row) => row.error).length ?? 0;
+  const validCount = (preview?.rows.length ?? 0) - invalid;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+      <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 bg-white rounded-2xl shadow-2xl">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-semibold text-gray-900">Import quiz</h3>
+          <button className="text-gray-600 hover:text-gray-900" onClick={onClose}>✕</button>
+        </div>
+        <p className="text-sm text-gray-600 mb-3">
+          A JSON file in the generated-quiz format, or a CSV with <code>question</code>, <code>options</code> (separated
+          by <code>|</code>) and <code>answer</code> columns.
+        </p>
+        <input
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          onChange={(e) => void handleFile(e.target.files?.[0])}
+          className="block w-full text-sm text-gray-700"
+        />
+        {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+        {preview && (
+          <>
+            <p className="mt-4 text-sm text-gray-700">
+              {validCount} question{validCount === 1 ? '' : 's'} ready
+              {invalid > 0 && <span className="text-red-700"> · {invalid} with problems will be skipped</span>}
+            </p>
+            <ol className="mt-2 max-h-80 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg text-sm">
+              {preview.rows.map((row) => (
+                <li key={row.number} className={`px-3 py-2 ${row.error ? 'bg-red-50' : ''}`}>
+                  <div className="flex gap-2">
+                    <span className="text-gray-500 shrink-0">{row.number}.</span>
+                    <span className="text-gray-800 truncate">{row.text || '—'}</span>
+                  </div>
+                  {row.error && <div className="ml-6 text-red-700">{row.error}</div>}
+                </li>
+              ))}
+            </ol>
+          </>
+        )}
+
+        <button
+          onClick={() => preview?.quiz && onImport(preview.quiz, (fileName ?? 'Imported quiz').replace(/\.(json|csv)$/i, ''))}
+          disabled={!preview?.quiz}
+          className="w-full mt-4 px-4 py-2 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 cursor-pointer disabled:cursor-not-allowed"
+        >
+          {validCount > 0 ? `Use ${validCount} question${validCount === 1 ? '' : 's'}` : 'Use questions'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -4,12 +4,21 @@ interface NavbarProps {
 userEmail?: string;
 userName?: string;
 onShowCreate: () => void;
+onShowImport?: () => void;
+onShowTemplates?: () => void;
 onShowResults: () => void;
+onShowAnalytics?: () => void;
 onSignOut: () => void;
+unsyncedCount?: number;
+onShowUnsynced?: () => void;
+revisionDueCount?: number;
+onStartRevision?: () => void;
+revisionDisabled?: boolean; // a quiz is in progress
 }
 
 export default function Navbar({ userEmail, userName,
-onShowCreate, onShowResults, onSignOut }: NavbarProps) {
+onShowCreate, onShowImport, onShowTemplates, onShowResults, onShowAnalytics, onSignOut, unsyncedCount = 0,
+onShowUnsynced, revisionDueCount = 0, onStartRevision, revisionDisabled = false }: NavbarProps) {
 const [menuOpen, setMenuOpen] = useState(false);
 const menuRef = useRef<HTMLDivElement | null>(null);
 
@@ -43,6 +52,24 @@ hover:text-blue-700 cursor-pointer"
 >
 Create practise-pitch
 </button>
+{onShowImport && (
+<button
+onClick={onShowImport}
+className="text-sm font-medium text-gray-800
+hover:text-blue-700 cursor-pointer"
+>
+Import quiz
+</button>
+)}
+{onShowTemplates && (
+<button
+onClick={onShowTemplates}
+className="text-sm font-medium text-gray-800
+hover:text-blue-700 cursor-pointer"
+>
+My quizzes
+</button>
+)}
 <button
 onClick={onShowResults}
 
@@ -51,7 +78,43 @@ hover:text-blue-700 cursor-pointer"
 >
 My past practises
 </button>
+{onShowAnalytics && (
+<button
+onClick={onShowAnalytics}
+className="text-sm font-medium text-gray-800
+hover:text-blue-700 cursor-pointer"
+>
+My progress
+</button>
+)}
 </div>
+<div className="flex items-center gap-3">
+{revisionDueCount > 0 && (
+<button
+onClick={onStartRevision}
+disabled={revisionDisabled}
+className="px-3 py-1 text-xs font-semibold text-indigo-800
+bg-indigo-100 border border-indigo-300 rounded-full
+hover:bg-indigo-200 cursor-pointer
+disabled:opacity-50 disabled:cursor-not-allowed"
+title={revisionDisabled
+? 'Finish the current quiz to start revising'
+: 'Questions from your bank due for revision today'}
+>
+Revise {revisionDueCount} due today
+</button>
+)}
+{unsyncedCount > 0 && (
+<button
+onClick={onShowUnsynced}
+className="px-3 py-1 text-xs font-semibold text-amber-800
+bg-amber-100 border border-amber-300 rounded-full
+hover:bg-amber-200 cursor-pointer"
+title="Results saved on this device that haven't reached the server yet"
+>
+{unsyncedCount} unsynced result{unsyncedCount === 1 ? '' : 's'}
+</button>
+)}
 <div
 className="relative"
 ref={menuRef}
@@ -90,6 +153,7 @@ Sign Out
 )}
 </div>
 </div>
+</div>
 </nav>
 );
 }
\ No newline at end of file
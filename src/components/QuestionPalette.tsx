@@ -0,0 +1,68 @@
+export type QuestionStatus = 'not-visited' | 'visited' | 'answered' | 'marked' | 'answered-marked';
+
+interface QuestionPaletteProps {
+  statuses: QuestionStatus[]; // one per question, including ones still generating
+  available: number; // questions that have arrived; the rest can't be opened yet
+  current: number;
+  onSelect: (index: number) => void;
+}
+
+const STATUS_STYLES: Record<QuestionStatus, string> = {
+  'not-visited': 'bg-white text-gray-700 border-gray-300',
+  'visited': 'bg-red-100 text-red-800 border-red-300',
+  'answered': 'bg-green-500 text-white border-green-600',
+  'marked': 'bg-purple-500 text-white border-purple-600',
+  'answered-marked': 'bg-purple-500 text-white border-green-500 ring-2 ring-green-400',
+};
+
+const STATUS_LABELS: Record<QuestionStatus, string> = {
+  'not-visited': 'Not visited',
+  'visited': 'Not answered',
+  'answered': 'Answered',
+  'marked': 'Marked for review',
+  'answered-marked': 'Answered & marked',
+};
+
+// Grid of question numbers coloured by status, as in computer-based exams
+export default function QuestionPalette({ statuses, available, current, onSelect }: QuestionPaletteProps) {
+  const counts = statuses.reduce<Partial<Record<QuestionStatus, number>>>((acc, status) => {
+    acc[status] = (acc[status] || 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <aside className="w-full lg:w-64 shrink-0 p-5 bg-white shadow-xl rounded-2xl">
+      <h3 className="text-sm font-semibold text-gray-800 mb-3">Question palette</h3>
+      <div className="grid grid-cols-5 gap-2">
+        {statuses.map((status, index) => {
+          const pending = index >= available;
+          return (
+            <button
+              key={index}
+              type="button"
+              onClick={() => onSelect(index)}
+              disabled={pending}
+              title={pending ? 'Still generating' : STATUS_LABELS[status]}
+              aria-current={index === current ? 'step' : undefined}
+              className={`h-9 text-sm font-semibold rounded-md border cursor-pointer disabled:cursor-wait disabled:opacity-40
+                ${STATUS_STYLES[status]}
+                ${index === current ? 'outline-2 outline-offset-2 outline-blue-600' : ''}
+              `}
+            >
+              {index + 1}
+            </button>
+          );
+        })}
+      </div>
+      <ul className="mt-4 space-y-1.5 text-xs text-gray-600">
+        {(Object.keys(STATUS_LABELS) as QuestionStatus[]).map((status) => (
+          <li key={status} className="flex items-center gap-2">
+            <span className={`inline-block h-3.5 w-3.5 rounded-sm border ${STATUS_STYLES[status]}`}></span>
+            <span className="flex-1">{STATUS_LABELS[status]}</span>
+            <span className="font-medium text-gray-800">{counts[status] || 0}</span>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+}
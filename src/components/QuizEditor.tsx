@@ -0,0 +1,265 @@
+import { useRef, useState } from 'react';
+import type { ApiResponseData, ItemType } from '../types/quiz';
+import { validateQuizData } from '../services/quizApi';
+import { ASSERTION_REASON_OPTIONS, ITEM_TYPES, QUESTION_TYPE_LABELS, itemsToQuiz, type QuizItem } from '../lib/quizItems';
+import {
+  MAX_OPTIONS,
+  MIN_OPTIONS,
+  draftToItem,
+  emptyDraft,
+  itemToDraft,
+  letterAt,
+  validateDraft,
+  type QuestionDraft,
+} from '../lib/questionDrafts';
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500';
+const smallButtonClass = 'px-2 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-40 cursor-pointer disabled:cursor-not-allowed';
+
+// Keys stay with a question when it's moved, so inputs keep their focus and text
+interface Row {
+  key: number;
+  draft: QuestionDraft;
+}
+
+/**
+ * Full-screen editor for a question set: question text, options, correct
+ * answers and order. Problems are listed per question once the user tries
+ * to save. `startLabel` adds a second button that saves and plays the quiz.
+ */
+export default function QuizEditor({
+  title,
+  initialName,
+  initialItems,
+  startLabel,
+  onSave,
+  onClose,
+}: {
+  title: string;
+  initialName: string;
+  initialItems: QuizItem[];
+  startLabel?: string;
+  onSave: (name: string, quiz: ApiResponseData, start: boolean) => void;
+  onClose: () => void;
+}) {
+  const nextKey = useRef(0);
+  const toRow = (draft: QuestionDraft): Row => ({ key: nextKey.current++, draft });
+  const [name, setName] = useState(initialName);
+  const [rows, setRows] = useState<Row[]>(() => (
+    initialItems.length > 0 ? initialItems.map((item) => toRow(itemToDraft(item))) : [toRow(emptyDraft('MCQ'))]
+  ));
+  const [showProblems, setShowProblems] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const problems = rows.map((row) => validateDraft(row.draft));
+  const problemCount = problems.filter((p) => p.length > 0).length;
+
+  const update = (key: number, draft: QuestionDraft) => setRows((prev) => prev.map((row) => (row.key === key ? { key, draft } : row)));
+  const move = (index: number, by: number) => setRows((prev) => {
+    const next = [...prev];
+    [next[index], next[index + by]] = [next[index + by], next[index]];
+    return next;
+  });
+
+  const save = (start: boolean) => {
+    setError(null);
+    if (rows.length === 0) {
+      setError('Add at least one question');
+      return;
+    }
+    if (problemCount > 0) {
+      setShowProblems(true);
+      return;
+    }
+    try {
+      onSave(name, validateQuizData(itemsToQuiz(rows.map((row, i) => draftToItem(row.draft, i + 1)))), start);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't save the questions");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-white rounded-2xl shadow-2xl">
+        <div className="flex items-center justify-between px-6 pt-6 pb-4 border-b border-gray-100">
+          <h3 className="text-xl font-semibold text-gray-900">{title}</h3>
+          <button className="text-gray-600 hover:text-gray-900" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          <label className="block text-sm font-medium text-gray-700">
+            Quiz name
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Untitled quiz" className={`mt-1 ${inputClass}`} />
+          </label>
+
+          {rows.map((row, index) => (
+            <div
+              key={row.key}
+              className={`p-4 border rounded-xl ${showProblems && problems[index].length > 0 ? 'border-red-300 bg-red-50/40' : 'border-gray-200'}`}
+            >
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <span className="font-semibold text-gray-900">Question {index + 1}</span>
+                <select
+                  value={row.draft.type}
+                  onChange={(e) => update(row.key, emptyDraft(e.target.value as ItemType, row.draft))}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+                  aria-label="Question type"
+                >
+                  {ITEM_TYPES.map((type) => <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>)}
+                </select>
+                <div className="ml-auto flex gap-1">
+                  <button type="button" onClick={() => move(index, -1)} disabled={index === 0} className={smallButtonClass} aria-label="Move up">↑</button>
+                  <button type="button" onClick={() => move(index, 1)} disabled={index === rows.length - 1} className={smallButtonClass} aria-label="Move down">↓</button>
+                  <button
+                    type="button"
+                    onClick={() => setRows((prev) => prev.filter((r) => r.key !== row.key))}
+                    className={smallButtonClass}
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+
+              <DraftFields draft={row.draft} onChange={(draft) => update(row.key, draft)} />
+
+              {showProblems && problems[index].length > 0 && (
+                <ul className="mt-3 text-sm text-red-700 list-disc list-inside">
+                  {problems[index].map((problem) => <li key={problem}>{problem}</li>)}
+                </ul>
+              )}
+            </div>
+          ))}
+
+          <button
+            type="button"
+            onClick={() => setRows((prev) => [...prev, toRow(emptyDraft('MCQ'))])}
+            className="w-full px-4 py-2 text-sm font-medium text-blue-700 border border-dashed border-blue-300 rounded-lg hover:bg-blue-50 cursor-pointer"
+          >
+            + Add question
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-100">
+          {showProblems && problemCount > 0 && (
+            <p className="mb-2 text-sm text-red-700">
+              Fix {problemCount} question{problemCount === 1 ? '' : 's'} before saving.
+            </p>
+          )}
+          {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+          <div className="flex flex-wrap justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 cursor-pointer"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => save(false)}
+              className={`px-4 py-2 text-sm font-semibold rounded-lg cursor-pointer ${startLabel ? 'text-blue-700 bg-blue-50 hover:bg-blue-100' : 'text-white bg-blue-600 hover:bg-blue-700'}`}
+            >
+              Save
+            </button>
+            {startLabel && (
+              <button
+                type="button"
+                onClick={() => save(true)}
+                className="px-4 py-2 text-sm font-semibold text-white bg-green-600 rounded-lg hover:bg-green-700 cursor-pointer"
+              >
+                {startLabel}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// The inputs for one question, by type
+function DraftFields({ draft, onChange }: { draft: QuestionDraft; onChange: (draft: QuestionDraft) => void }) {
+  switch (draft.type) {
+    case 'MCQ':
+    case 'MultiSelect': {
+      const multi = draft.type === 'MultiSelect';
+      const setOption = (i: number, text: string) => onChange({ ...draft, options: draft.options.map((o, j) => (j === i ? text : o)) });
+      // Answers point at options by position, so later ones shift down
+      const removeOption = (i: number) => onChange({
+        ...draft,
+        options: draft.options.filter((_, j) => j !== i),
+        correct: draft.correct.filter((c) => c !== i).map((c) => (c > i ? c - 1 : c)),
+      });
+      const toggleCorrect = (i: number) => onChange({
+        ...draft,
+        correct: !multi ? [i] : draft.correct.includes(i) ? draft.correct.filter((c) => c !== i) : [...draft.correct, i],
+      });
+      return (
+        <div className="space-y-2">
+          <textarea value={draft.text} onChange={(e) => onChange({ ...draft, text: e.target.value })} rows={2} placeholder="Question" className={inputClass} />
+          <p className="text-xs text-gray-500">{multi ? 'Tick every correct option.' : 'Select the correct option.'}</p>
+          {draft.options.map((option, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <input
+                type={multi ? 'checkbox' : 'radio'}
+                checked={draft.correct.includes(i)}
+                onChange={() => toggleCorrect(i)}
+                aria-label={`Option ${letterAt(i)} is correct`}
+              />
+              <span className="w-5 text-sm font-medium text-gray-600">{letterAt(i)}.</span>
+              <input value={option} onChange={(e) => setOption(i, e.target.value)} placeholder={`Option ${letterAt(i)}`} className={inputClass} />
+              <button type="button" onClick={() => removeOption(i)} disabled={draft.options.length <= MIN_OPTIONS} className={smallButtonClass}>
+                ✕
+              </button>
+            </div>
+          ))}
+          {draft.options.length < MAX_OPTIONS && (
+            <button type="button" onClick={() => onChange({ ...draft, options: [...draft.options, ''] })} className={smallButtonClass}>
+              + Add option
+            </button>
+          )}
+        </div>
+      );
+    }
+    case 'TrueFalse':
+      return (
+        <div className="space-y-2">
+          <textarea value={draft.text} onChange={(e) => onChange({ ...draft, text: e.target.value })} rows={2} placeholder="Statement" className={inputClass} />
+          <div className="flex gap-4 text-sm text-gray-700">
+            {[true, false].map((value) => (
+              <label key={String(value)} className="flex items-center gap-2">
+                <input type="radio" checked={draft.answer === value} onChange={() => onChange({ ...draft, answer: value })} />
+                {value ? 'True' : 'False'}
+              </label>
+            ))}
+          </div>
+        </div>
+      );
+    case 'Numeric':
+      return (
+        <div className="space-y-2">
+          <textarea value={draft.text} onChange={(e) => onChange({ ...draft, text: e.target.value })} rows={2} placeholder="Question" className={inputClass} />
+          <div className="grid grid-cols-3 gap-2">
+            <input value={draft.answer} onChange={(e) => onChange({ ...draft, answer: e.target.value })} inputMode="decimal" placeholder="Answer" className={inputClass} />
+            <input value={draft.unit} onChange={(e) => onChange({ ...draft, unit: e.target.value })} placeholder="Unit (optional)" className={inputClass} />
+            <input value={draft.tolerance} onChange={(e) => onChange({ ...draft, tolerance: e.target.value })} inputMode="decimal" placeholder="± tolerance" className={inputClass} />
+          </div>
+        </div>
+      );
+    case 'AssertionReason':
+      return (
+        <div className="space-y-2">
+          <textarea value={draft.assertion} onChange={(e) => onChange({ ...draft, assertion: e.target.value })} rows={2} placeholder="Assertion (A)" className={inputClass} />
+          <textarea value={draft.reason} onChange={(e) => onChange({ ...draft, reason: e.target.value })} rows={2} placeholder="Reason (R)" className={inputClass} />
+          <select value={draft.answer} onChange={(e) => onChange({ ...draft, answer: e.target.value })} className={inputClass} aria-label="Correct option">
+            <option value="">Correct option…</option>
+            {ASSERTION_REASON_OPTIONS.map((option) => <option key={option} value={option[0]}>{option}</option>)}
+          </select>
+        </div>
+      );
+    case 'Subjective':
+      return (
+        <textarea value={draft.text} onChange={(e) => onChange({ ...draft, text: e.target.value })} rows={3} placeholder="Question" className={inputClass} />
+      );
+  }
+}
@@ -0,0 +1,78 @@
+import type { QuizTemplate } from '../lib/quizTemplates';
+import { QUESTION_TYPE_LABELS } from '../lib/quizItems';
+
+// The user's saved question sets, to retake, edit or delete, plus a way to
+// write a new one from scratch
+export default function QuizTemplatesDialog({
+  templates,
+  onStart,
+  onEdit,
+  onDelete,
+  onCreate,
+  onClose,
+}: {
+  templates: QuizTemplate[];
+  onStart: (template: QuizTemplate) => void;
+  onEdit: (template: QuizTemplate) => void;
+  onDelete: (template: QuizTemplate) => void;
+  onCreate: () => void;
+  onClose: () => void;
+}) {
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+      <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 bg-white rounded-2xl shadow-2xl">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-semibold text-gray-900">My quizzes</h3>
+          <button className="text-gray-600 hover:text-gray-900" onClick={onClose}>✕</button>
+        </div>
+        <button
+          onClick={onCreate}
+          className="w-full mb-4 px-4 py-2 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 cursor-pointer"
+        >
+          Write a new quiz
+        </button>
+        {templates.length === 0 && (
+          <p className="text-sm text-gray-600">
+            Quizzes you write, or edit from a generated set or a past result, are kept here to retake.
+          </p>
+        )}
+        <ul className="divide-y divide-gray-100">
+          {templates.map((template) => (
+            <li key={template.id} className="py-3 flex flex-wrap items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-gray-900 truncate">{template.name}</div>
+                <div className="text-xs text-gray-500">
+                  {template.exam} · {template.quiz.QuestionArray.length} question{template.quiz.QuestionArray.length === 1 ? '' : 's'}
+                  {' · '}{QUESTION_TYPE_LABELS[template.quiz.questionType]}
+                  {' · '}edited {new Date(template.updatedAt).toLocaleDateString()}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => onStart(template)}
+                  className="px-3 py-1.5 text-sm font-semibold text-white bg-green-600 rounded-md hover:bg-green-700 cursor-pointer"
+                >
+                  Take
+                </button>
+                <button
+                  onClick={() => onEdit(template)}
+                  className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 cursor-pointer"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Delete "${template.name}"?`)) onDelete(template);
+                  }}
+                  className="px-3 py-1.5 text-sm font-medium text-red-700 bg-red-50 rounded-md hover:bg-red-100 cursor-pointer"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
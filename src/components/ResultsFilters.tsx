@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import type { ResultsQuery } from '../services/resultsApi';
+import { QUESTION_TYPE_LABELS } from '../lib/quizItems';
+import { EXAM_PROFILES } from '../lib/examProfiles';
+
+const SORT_LABELS: Record<NonNullable<ResultsQuery['sort']>, string> = {
+  date: 'Date',
+  score: 'Score',
+  time: 'Time taken',
+};
+
+const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+// Search, filter and sort controls for the results list. Edits apply on submit.
+export default function ResultsFilters({ query, onApply }: { query: ResultsQuery; onApply: (query: ResultsQuery) => void }) {
+  const [draft, setDraft] = useState<ResultsQuery>(query);
+
+  const set = <K extends keyof ResultsQuery>(key: K, value: ResultsQuery[K]) => setDraft((prev) => ({ ...prev, [key]: value }));
+  const numberOrUndefined = (value: string) => (value === '' ? undefined : Number(value));
+
+  return (
+    <form
+      className="mb-4 space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onApply(draft);
+      }}
+    >
+      <input
+        type="search"
+        value={draft.search ?? ''}
+        onChange={(e) => set('search', e.target.value)}
+        placeholder="Search topics"
+        className={inputClass}
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          list="results-exam-options"
+          value={draft.exam ?? ''}
+          onChange={(e) => set('exam', e.target.value)}
+          placeholder="Any exam"
+          className={inputClass}
+        />
+        <datalist id="results-exam-options">
+          {EXAM_PROFILES.map((profile) => <option key={profile.name} value={profile.name} />)}
+        </datalist>
+        <select value={draft.questionType ?? ''} onChange={(e) => set('questionType', e.target.value)} className={inputClass}>
+          <option value="">Any question type</option>
+          {Object.entries(QUESTION_TYPE_LABELS).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+        </select>
+        <input
+          type="number"
+          value={draft.minScore ?? ''}
+          onChange={(e) => set('minScore', numberOrUndefined(e.target.value))}
+          placeholder="Min score"
+          className={inputClass}
+        />
+        <input
+          type="number"
+          value={draft.maxScore ?? ''}
+          onChange={(e) => set('maxScore', numberOrUndefined(e.target.value))}
+          placeholder="Max score"
+          className={inputClass}
+        />
+        <label className="text-xs text-gray-600">
+          From
+          <input type="date" value={draft.from ?? ''} onChange={(e) => set('from', e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-xs text-gray-600">
+          To
+          <input type="date" value={draft.to ?? ''} onChange={(e) => set('to', e.target.value)} className={inputClass} />
+        </label>
+        <select
+          value={draft.sort ?? 'date'}
+          onChange={(e) => set('sort', e.target.value as ResultsQuery['sort'])}
+          className={inputClass}
+          aria-label="Sort by"
+        >
+          {Object.entries(SORT_LABELS).map(([sort, label]) => <option key={sort} value={sort}>Sort: {label}</option>)}
+        </select>
+        <select
+          value={draft.order ?? 'desc'}
+          onChange={(e) => set('order', e.target.value as ResultsQuery['order'])}
+          className={inputClass}
+          aria-label="Order"
+        >
+          <option value="desc">Highest / newest first</option>
+          <option value="asc">Lowest / oldest first</option>
+        </select>
+      </div>
+      <div className="flex gap-2">
+        <button type="submit" className="px-3 py-1.5 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 cursor-pointer">
+          Apply
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setDraft({});
+            onApply({});
+          }}
+          className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 cursor-pointer"
+        >
+          Clear
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,38 @@
+import type { ShortcutBinding } from '../hooks/useKeyboardShortcuts';
+
+interface ShortcutsOverlayProps {
+  bindings: Pick<ShortcutBinding, 'display' | 'description'>[];
+  onClose: () => void;
+}
+
+export default function ShortcutsOverlay({ bindings, onClose }: ShortcutsOverlayProps) {
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="w-full max-w-md p-6 bg-white rounded-2xl shadow-2xl"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcuts-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 id="shortcuts-title" className="text-xl font-semibold text-gray-900">Keyboard shortcuts</h3>
+          <button className="text-gray-600 hover:text-gray-900 cursor-pointer" onClick={onClose} aria-label="Close">✕</button>
+        </div>
+        <table className="w-full text-sm">
+          <tbody>
+            {bindings.map((binding) => (
+              <tr key={binding.display} className="border-t border-gray-100">
+                <td className="py-2 pr-4 whitespace-nowrap">
+                  <kbd className="px-2 py-0.5 font-mono text-xs text-gray-800 bg-gray-100 border border-gray-300 rounded">{binding.display}</kbd>
+                </td>
+                <td className="py-2 text-gray-700">{binding.description}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="mt-4 text-xs text-gray-500">Shortcuts are paused while you type in an answer box.</p>
+      </div>
+    </div>
+  );
+}
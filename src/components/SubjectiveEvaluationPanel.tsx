@@ -0,0 +1,61 @@
+import { RUBRIC_CRITERIA, type RubricCriterion, type SubjectiveEvaluation } from '../services/evaluationApi';
+
+const CRITERION_LABELS: Record<RubricCriterion, string> = {
+  structure: 'Structure',
+  content: 'Content',
+  examples: 'Examples',
+  conclusion: 'Conclusion',
+};
+
+// Marks, rubric breakdown, model answer and tips for one graded subjective answer
+export default function SubjectiveEvaluationPanel({ evaluation }: { evaluation: SubjectiveEvaluation }) {
+  const ratio = evaluation.maxMarks > 0 ? evaluation.marks / evaluation.maxMarks : 0;
+  const badgeColor = ratio >= 0.7
+    ? 'bg-green-100 text-green-800'
+    : ratio >= 0.4 ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800';
+
+  return (
+    <div className="mt-4 p-4 rounded-lg border border-indigo-200 bg-indigo-50/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-semibold text-indigo-900">Evaluation</div>
+        <span className={`px-3 py-1 text-xs font-semibold rounded-full ${badgeColor}`}>
+          {evaluation.marks} / {evaluation.maxMarks} marks
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        {RUBRIC_CRITERIA.map((criterion) => {
+          const { score, max, comment } = evaluation.rubric[criterion];
+          return (
+            <div key={criterion} className="text-sm">
+              <div className="flex justify-between text-gray-700">
+                <span className="font-medium">{CRITERION_LABELS[criterion]}</span>
+                <span>{score} / {max}</span>
+              </div>
+              <div className="mt-1 h-1.5 w-full bg-gray-200 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500" style={{ width: `${max > 0 ? (score / max) * 100 : 0}%` }} />
+              </div>
+              {comment && <p className="mt-1 text-xs text-gray-600">{comment}</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      {evaluation.tips.length > 0 && (
+        <div className="text-sm">
+          <div className="font-medium text-gray-700 mb-1">How to improve</div>
+          <ul className="list-disc pl-5 space-y-1 text-gray-700">
+            {evaluation.tips.map((tip, i) => <li key={i}>{tip}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <details className="text-sm">
+        <summary className="font-medium text-gray-700 cursor-pointer">Model answer</summary>
+        <div className="mt-2 text-gray-800 bg-white p-3 rounded border" style={{ whiteSpace: 'pre-wrap' }}>
+          {evaluation.modelAnswer}
+        </div>
+      </details>
+    </div>
+  );
+}
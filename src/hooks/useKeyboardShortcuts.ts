@@ -0,0 +1,49 @@
+import { useEffect, useRef } from 'react';
+
+export interface ShortcutBinding {
+  // KeyboardEvent.key values, matched case-insensitively. Prefix with "Ctrl+"
+  // for Ctrl (or Cmd on macOS) combinations, e.g. "Ctrl+Enter".
+  keys: string[];
+  display: string; // how the keys are shown in the help overlay
+  description: string;
+  handler: (key: string, e: KeyboardEvent) => void;
+  allowWhileTyping?: boolean;
+}
+
+/**
+ * Window-level keyboard shortcuts. By default bindings don't fire while focus
+ * is in a text field, so typing an answer never triggers them.
+ */
+export function useKeyboardShortcuts(bindings: ShortcutBinding[], enabled = true) {
+  // Handlers close over fresh state every render; the listener reads the latest
+  const bindingsRef = useRef(bindings);
+  useEffect(() => {
+    bindingsRef.current = bindings;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey || e.isComposing) return;
+      const key = normalizeKey(e);
+      const binding = bindingsRef.current.find((b) => b.keys.some((k) => k.toLowerCase() === key));
+      if (!binding) return;
+      if (!binding.allowWhileTyping && isTypingTarget(e.target)) return;
+      e.preventDefault();
+      binding.handler(key.replace(/^ctrl\+/, ''), e);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [enabled]);
+}
+
+function normalizeKey(e: KeyboardEvent): string {
+  return `${e.ctrlKey || e.metaKey ? 'ctrl+' : ''}${e.key.toLowerCase()}`;
+}
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  return target instanceof HTMLInputElement && !['checkbox', 'radio', 'button', 'submit'].includes(target.type);
+}
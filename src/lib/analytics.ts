@@ -0,0 +1,116 @@
+import type { ResultDetail } from '../services/resultsApi';
+import { getQuizItems, isAttempted, parseStoredQuiz, scoreItem } from './quizItems';
+
+// Progress across saved results. Everything is derived from the stored
+// ResultDetail records, so older results without a summary still count.
+
+const UNKNOWN = 'Unknown';
+
+export interface AttemptPoint {
+  id: string;
+  date: string; // ISO
+  exam: string;
+  topic: string;
+  difficulty: string;
+  scorePct: number | null; // net marks as a share of the maximum, 0–100
+  accuracy: number | null; // correct / attempted, 0–1
+  gradable: number;
+  attempted: number;
+  correct: number;
+  timeMs: number;
+  questions: number;
+}
+
+export interface AccuracyGroup {
+  label: string;
+  quizzes: number;
+  attempted: number;
+  correct: number;
+  accuracy: number | null;
+}
+
+export interface AnalyticsReport {
+  points: AttemptPoint[]; // oldest first
+  averageTimePerQuestionMs: number | null;
+  byExam: AccuracyGroup[];
+  byTopic: AccuracyGroup[];
+  byDifficulty: AccuracyGroup[];
+  practiceDays: Record<string, number>; // local 'YYYY-MM-DD' -> quizzes taken
+}
+
+export function toAttemptPoint(detail: ResultDetail): AttemptPoint {
+  const stored = parseStoredQuiz(detail.questions);
+  const items = stored ? getQuizItems(stored) : [];
+  const answers = detail.solutions?.userAnswers || {};
+  let gradable = 0, attempted = 0, correct = 0;
+  items.forEach((item, index) => {
+    const verdict = scoreItem(item, answers[index]);
+    if (verdict === null) return;
+    gradable++;
+    if (isAttempted(answers[index])) attempted++;
+    if (verdict) correct++;
+  });
+  // "exam : topic"; older results have no settings
+  const [examFromTopic, ...topicParts] = detail.topic.split(' : ');
+  const settings = detail.solutions?.settings;
+  const summary = detail.solutions?.summary;
+  return {
+    id: detail.id,
+    date: detail.created_at,
+    exam: settings?.exam || examFromTopic || UNKNOWN,
+    topic: settings?.topic || topicParts.join(' : ') || UNKNOWN,
+    difficulty: settings?.difficulty || UNKNOWN,
+    scorePct: summary && summary.max > 0
+      ? Math.max(0, (summary.net / summary.max) * 100)
+      : gradable > 0 ? (correct / gradable) * 100 : null,
+    accuracy: attempted > 0 ? correct / attempted : null,
+    gradable,
+    attempted,
+    correct,
+    timeMs: detail.time_ms,
+    questions: items.length,
+  };
+}
+
+export function computeAnalytics(details: ResultDetail[]): AnalyticsReport {
+  const points = details.map(toAttemptPoint).sort((a, b) => a.date.localeCompare(b.date));
+  const timed = points.filter((p) => p.questions > 0 && p.timeMs > 0);
+  const totalQuestions = timed.reduce((sum, p) => sum + p.questions, 0);
+
+  const practiceDays: Record<string, number> = {};
+  for (const p of points) {
+    const day = localDayKey(new Date(p.date));
+    practiceDays[day] = (practiceDays[day] || 0) + 1;
+  }
+
+  return {
+    points,
+    averageTimePerQuestionMs: totalQuestions > 0 ? timed.reduce((sum, p) => sum + p.timeMs, 0) / totalQuestions : null,
+    byExam: groupAccuracy(points, (p) => p.exam),
+    byTopic: groupAccuracy(points, (p) => p.topic),
+    byDifficulty: groupAccuracy(points, (p) => p.difficulty),
+    practiceDays,
+  };
+}
+
+// Most practised first
+function groupAccuracy(points: AttemptPoint[], keyOf: (p: AttemptPoint) => string): AccuracyGroup[] {
+  const groups = new Map<string, AccuracyGroup>();
+  for (const p of points) {
+    const label = keyOf(p);
+    const group = groups.get(label) ?? { label, quizzes: 0, attempted: 0, correct: 0, accuracy: null };
+    group.quizzes++;
+    group.attempted += p.attempted;
+    group.correct += p.correct;
+    groups.set(label, group);
+  }
+  return [...groups.values()]
+    .map((g) => ({ ...g, accuracy: g.attempted > 0 ? g.correct / g.attempted : null }))
+    .sort((a, b) => b.quizzes - a.quizzes || a.label.localeCompare(b.label));
+}
+
+export function localDayKey(date: Date): string {
+  const mm = String(date.getMonth() + 1).padStart(2, '0');
+  const dd = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${mm}-${dd}`;
+}
@@ -0,0 +1,51 @@
+import type { ApiResponseData, UserAnswers } from '../types/quiz';
+import type { ResultDetail } from '../services/resultsApi';
+import { getQuizItems, isAttempted, itemsToMixedQuiz, parseStoredQuiz, scoreItem, type QuizItem } from './quizItems';
+
+// Re-attempts of a past result's mistakes. A retry is saved as its own result
+// with a link to the one it retried, so a chain of attempts can be walked back
+// to the first.
+
+export interface RetryLink {
+  resultId: string; // the attempt this one retried
+  questionIndices: number[]; // index in that attempt of each question here
+}
+
+export interface AttemptSummary {
+  id: string;
+  createdAt: string;
+  questions: number;
+  correct: number;
+}
+
+// Questions answered wrongly or skipped. Subjective answers count only when skipped.
+export function missedQuestionIndices(items: QuizItem[], userAnswers: UserAnswers): number[] {
+  return items.flatMap((item, index) =>
+    !isAttempted(userAnswers[index]) || scoreItem(item, userAnswers[index]) === false ? [index] : [],
+  );
+}
+
+// A new quiz of the result's missed questions, from its stored payload
+export function buildRetryQuiz(detail: ResultDetail): { quiz: ApiResponseData; link: RetryLink } | null {
+  const stored = parseStoredQuiz(detail.questions);
+  if (!stored) return null;
+  const items = getQuizItems(stored);
+  const questionIndices = missedQuestionIndices(items, detail.solutions?.userAnswers || {});
+  if (questionIndices.length === 0) return null;
+  return {
+    quiz: itemsToMixedQuiz(questionIndices.map((i) => items[i])),
+    link: { resultId: detail.id, questionIndices },
+  };
+}
+
+export function summarizeAttempt(detail: ResultDetail): AttemptSummary {
+  const stored = parseStoredQuiz(detail.questions);
+  const items = stored ? getQuizItems(stored) : [];
+  const answers = detail.solutions?.userAnswers || {};
+  return {
+    id: detail.id,
+    createdAt: detail.created_at,
+    questions: items.length,
+    correct: items.filter((item, index) => scoreItem(item, answers[index]) === true).length,
+  };
+}
@@ -0,0 +1,50 @@
+import type { UserAnswers } from '../types/quiz';
+import { isAttempted, scoreItem, type QuizItem } from './quizItems';
+
+// How sure the user was of each answer, compared against how often they were
+// right. With negative marking, knowing when a guess is worth it matters as
+// much as knowing the answer.
+
+export const CONFIDENCE_LEVELS = ['guess', 'unsure', 'sure'] as const;
+export type Confidence = typeof CONFIDENCE_LEVELS[number];
+export type ConfidenceMap = Record<number, Confidence>; // by question index
+
+export const CONFIDENCE_LABELS: Record<Confidence, string> = {
+  guess: 'Guess',
+  unsure: 'Unsure',
+  sure: 'Sure',
+};
+
+export interface CalibrationReport {
+  byLevel: Record<Confidence, { answered: number; correct: number }>;
+  luckyGuesses: number[]; // question indices guessed and right
+  confidentMistakes: number[]; // question indices marked sure and wrong
+  unrated: number; // attempted auto-graded answers with no rating
+}
+
+/**
+ * Only attempted, auto-graded answers count; a rating on a skipped question
+ * says nothing about calibration.
+ */
+export function computeCalibration(items: QuizItem[], userAnswers: UserAnswers, confidence: ConfidenceMap): CalibrationReport {
+  const report: CalibrationReport = {
+    byLevel: { guess: { answered: 0, correct: 0 }, unsure: { answered: 0, correct: 0 }, sure: { answered: 0, correct: 0 } },
+    luckyGuesses: [],
+    confidentMistakes: [],
+    unrated: 0,
+  };
+  items.forEach((item, index) => {
+    const verdict = scoreItem(item, userAnswers[index]);
+    if (verdict === null || !isAttempted(userAnswers[index])) return;
+    const level = confidence[index];
+    if (!level) {
+      report.unrated++;
+      return;
+    }
+    report.byLevel[level].answered++;
+    if (verdict) report.byLevel[level].correct++;
+    if (level === 'guess' && verdict) report.luckyGuesses.push(index);
+    if (level === 'sure' && !verdict) report.confidentMistakes.push(index);
+  });
+  return report;
+}
@@ -0,0 +1,132 @@
+import type { QuestionMix, QuestionType } from '../types/quiz';
+import { MARKING_SCHEMES, type MarkingScheme, type MarkingSchemeId } from './markingSchemes';
+import { ITEM_TYPES } from './quizItems';
+
+// Known exams and the setup defaults that suit them. The exam field stays free
+// text: anything that isn't a profile name is a custom exam with no defaults.
+
+export type Difficulty = 'Easy' | 'Medium' | 'Hard';
+export const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
+export interface ExamProfile {
+  name: string; // what goes into the exam field
+  defaultQuestionCount: number;
+  defaultQuestionType: QuestionType;
+  questionTypes: QuestionType[]; // allowed, in select order
+  difficultyLabels: Record<Difficulty, string>; // values sent to the API stay Easy/Medium/Hard
+  languages: string[];
+  markingSchemeId: MarkingSchemeId;
+  secondsPerQuestion: number;
+  topics: string[];
+}
+
+const DEFAULT_DIFFICULTY_LABELS: Record<Difficulty, string> = { Easy: 'Easy', Medium: 'Medium', Hard: 'Hard' };
+export const DEFAULT_LANGUAGES = ['English', 'Hindi'];
+
+export const EXAM_PROFILES: ExamProfile[] = [
+  {
+    name: 'UPSC Prelims',
+    defaultQuestionCount: 10,
+    defaultQuestionType: 'MCQ',
+    questionTypes: ['MCQ', 'MultiSelect', 'AssertionReason', 'TrueFalse', 'Mixed'],
+    difficultyLabels: { Easy: 'Foundation', Medium: 'Prelims standard', Hard: 'Above Prelims' },
+    languages: ['English', 'Hindi'],
+    markingSchemeId: 'upsc-prelims',
+    secondsPerQuestion: 72, // 100 questions in 2 hours
+    topics: [
+      'Indian Polity', 'Modern Indian History', 'Ancient & Medieval History', 'Art & Culture',
+      'Indian Geography', 'World Geography', 'Indian Economy', 'Environment & Ecology',
+      'Science & Technology', 'Current Affairs', 'Government Schemes', 'International Relations',
+    ],
+  },
+  {
+    name: 'UPSC Mains',
+    defaultQuestionCount: 5,
+    defaultQuestionType: 'Subjective',
+    questionTypes: ['Subjective'],
+    difficultyLabels: { Easy: '10-markers', Medium: 'Mains standard', Hard: '15-markers' },
+    languages: ['English', 'Hindi'],
+    markingSchemeId: 'standard',
+    secondsPerQuestion: 540, // 20 answers in 3 hours
+    topics: [
+      'GS1: History & Society', 'GS1: Geography', 'GS2: Polity & Governance', 'GS2: International Relations',
+      'GS3: Economy', 'GS3: Environment', 'GS3: Internal Security', 'GS4: Ethics', 'Essay',
+    ],
+  },
+  {
+    name: 'GRE',
+    defaultQuestionCount: 10,
+    defaultQuestionType: 'MCQ',
+    questionTypes: ['MCQ', 'MultiSelect', 'Numeric', 'Mixed'],
+    difficultyLabels: DEFAULT_DIFFICULTY_LABELS,
+    languages: ['English'],
+    markingSchemeId: 'standard',
+    secondsPerQuestion: 90,
+    topics: [
+      'Text Completion', 'Sentence Equivalence', 'Reading Comprehension', 'Arithmetic',
+      'Algebra', 'Geometry', 'Data Analysis', 'Quantitative Comparison',
+    ],
+  },
+  {
+    name: 'NEET',
+    defaultQuestionCount: 15,
+    defaultQuestionType: 'MCQ',
+    questionTypes: ['MCQ', 'AssertionReason', 'Mixed'],
+    difficultyLabels: { Easy: 'NCERT level', Medium: 'NEET standard', Hard: 'Above NEET' },
+    languages: ['English', 'Hindi'],
+    markingSchemeId: 'neet',
+    secondsPerQuestion: 60, // 180 questions in 3 hours
+    topics: [
+      'Physics: Mechanics', 'Physics: Electrodynamics', 'Physics: Modern Physics', 'Physical Chemistry',
+      'Organic Chemistry', 'Inorganic Chemistry', 'Human Physiology', 'Genetics & Evolution',
+      'Plant Physiology', 'Ecology', 'Cell Biology',
+    ],
+  },
+  {
+    name: 'CAT',
+    defaultQuestionCount: 10,
+    defaultQuestionType: 'MCQ',
+    questionTypes: ['MCQ', 'Numeric', 'Mixed'],
+    difficultyLabels: DEFAULT_DIFFICULTY_LABELS,
+    languages: ['English'],
+    markingSchemeId: 'cat',
+    secondsPerQuestion: 120, // 22 questions per 40-minute section
+    topics: [
+      'Reading Comprehension', 'Para Jumbles', 'Data Interpretation', 'Logical Reasoning',
+      'Arithmetic', 'Algebra', 'Geometry', 'Number Systems',
+    ],
+  },
+];
+
+export function findExamProfile(exam: string): ExamProfile | undefined {
+  const key = exam.trim().toLowerCase();
+  return EXAM_PROFILES.find((profile) => profile.name.toLowerCase() === key);
+}
+
+// The profile's scheme for known exams. Custom exams get no penalty; a name
+// like "UPSC Mains" shouldn't pick up another exam's negative marking.
+export function markingSchemeFor(exam: string): MarkingScheme {
+  const profile = findExamProfile(exam);
+  return MARKING_SCHEMES[profile ? profile.markingSchemeId : 'standard'];
+}
+
+/**
+ * Setup defaults after switching to `profile`. The difficulty and topic are
+ * kept; language and mix are only trimmed to what the profile allows.
+ */
+export function applyExamProfile<T extends { q_no: number; questionType: string; language: string; mix: QuestionMix }>(
+  config: T,
+  profile: ExamProfile,
+): T {
+  const mix: QuestionMix = {};
+  for (const type of ITEM_TYPES) {
+    if (profile.questionTypes.includes(type) && config.mix[type]) mix[type] = config.mix[type];
+  }
+  return {
+    ...config,
+    q_no: profile.defaultQuestionCount,
+    questionType: profile.defaultQuestionType,
+    language: profile.languages.includes(config.language) ? config.language : profile.languages[0],
+    mix,
+  };
+}
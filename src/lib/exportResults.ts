@@ -0,0 +1,167 @@
+import type { ResultDetail } from '../services/resultsApi';
+import { decodeMultiSelect, describeCorrectAnswer, getItemText, getQuizItems, isAttempted, parseStoredQuiz, scoreItem } from './quizItems';
+import { formatMarks, markItem } from './markingSchemes';
+
+// Exports of saved results for sharing outside the app: CSV with one row per
+// question, JSON with the records as stored, and a printable page the
+// browser can save as PDF.
+
+export type ExportFormat = 'csv' | 'json' | 'print';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  print: 'Print / PDF',
+};
+
+interface QuestionRow {
+  number: number;
+  type: string;
+  question: string;
+  yourAnswer: string;
+  correctAnswer: string;
+  outcome: 'correct' | 'incorrect' | 'unanswered' | 'not auto-graded';
+  marks: string;
+  timeSeconds: string;
+}
+
+function questionRows(detail: ResultDetail): QuestionRow[] {
+  const stored = parseStoredQuiz(detail.questions);
+  if (!stored) return [];
+  const answers = detail.solutions?.userAnswers || {};
+  const scheme = detail.solutions?.markingScheme;
+  const times = detail.solutions?.perQuestionMs;
+  const evaluations = detail.solutions?.evaluations || [];
+  return getQuizItems(stored).map((item, index) => {
+    const answer = answers[index];
+    const verdict = scoreItem(item, answer);
+    const marks = scheme ? markItem(item, answer, scheme) : null;
+    const evaluation = evaluations.find((ev) => ev.index === index);
+    return {
+      number: index + 1,
+      type: item.type,
+      question: getItemText(item),
+      yourAnswer: !isAttempted(answer) ? '' : item.type === 'MultiSelect' ? decodeMultiSelect(answer).join(', ') : answer,
+      correctAnswer: describeCorrectAnswer(item) ?? '',
+      outcome: verdict === null ? 'not auto-graded' : !isAttempted(answer) ? 'unanswered' : verdict ? 'correct' : 'incorrect',
+      marks: evaluation ? `${formatMarks(evaluation.marks)}/${evaluation.maxMarks}` : marks === null ? '' : formatMarks(marks),
+      timeSeconds: times?.[index] !== undefined ? String(Math.round(times[index] / 1000)) : '',
+    };
+  });
+}
+
+export function resultsToCsv(details: ResultDetail[]): string {
+  const header = ['result_id', 'taken_at', 'topic', 'question_no', 'type', 'question', 'your_answer', 'correct_answer', 'outcome', 'marks', 'time_seconds'];
+  const lines = [header.join(',')];
+  for (const detail of details) {
+    for (const row of questionRows(detail)) {
+      lines.push([
+        detail.id, detail.created_at, detail.topic, row.number, row.type, row.question,
+        row.yourAnswer, row.correctAnswer, row.outcome, row.marks, row.timeSeconds,
+      ].map((v) => csvField(String(v))).join(','));
+    }
+  }
+  return lines.join('\r\n');
+}
+
+// Quotes when needed, and defuses values a spreadsheet would run as a
+// formula. Plain numbers such as negative marks (-0.67) are left alone.
+function csvField(value: string): string {
+  const isNumber = /^[+-]?(\d[\d,]*(\.\d+)?|\.\d+)$/.test(value);
+  const safe = !isNumber && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function resultsToJson(details: ResultDetail[]): string {
+  return JSON.stringify({ exportedAt: new Date().toISOString(), results: details }, null, 2);
+}
+
+// Standalone HTML page: a summary and every question per result, one result per printed page
+export function resultsToPrintHtml(details: ResultDetail[]): string {
+  const sections = details.map((detail) => {
+    const summary = detail.solutions?.summary;
+    const rows = questionRows(detail).map((row) => `
+      <li class="${row.outcome.replace(/ /g, '-')}">
+        <p class="q">${escapeHtml(row.question)}</p>
+        <p>Your answer: ${row.yourAnswer ? escapeHtml(row.yourAnswer) : '<em>not answered</em>'}</p>
+        ${row.correctAnswer ? `<p>Correct answer: ${escapeHtml(row.correctAnswer)}</p>` : ''}
+        <p class="meta">${row.outcome}${row.marks ? ` · ${escapeHtml(row.marks)} marks` : ''}${row.timeSeconds ? ` · ${row.timeSeconds}s` : ''}</p>
+      </li>`).join('');
+    return `
+    <section>
+      <h1>${escapeHtml(detail.topic)}</h1>
+      <p class="meta">Taken ${escapeHtml(new Date(detail.created_at).toLocaleString())} · ${Math.round(detail.time_ms / 1000)}s</p>
+      <table>
+        <tr><th>Score</th><td>${escapeHtml(detail.solutions ? `${formatMarks(detail.solutions.score)}${detail.solutions.maxScore !== undefined ? ` / ${detail.solutions.maxScore}` : ''}` : '—')}</td></tr>
+        ${detail.solutions?.written ? `<tr><th>Written</th><td>${formatMarks(detail.solutions.written.marks)} / ${detail.solutions.written.max}</td></tr>` : ''}
+        ${summary ? `
+        <tr><th>Net / max</th><td>${formatMarks(summary.net)} / ${summary.max}</td></tr>
+        <tr><th>Accuracy</th><td>${Math.round(summary.accuracy * 100)}%</td></tr>
+        <tr><th>Attempted</th><td>${summary.attempted} / ${summary.gradable}</td></tr>` : ''}
+        ${detail.solutions?.markingScheme ? `<tr><th>Marking</th><td>${escapeHtml(detail.solutions.markingScheme.label)}</td></tr>` : ''}
+      </table>
+      <ol>${rows}</ol>
+    </section>`;
+  }).join('');
+
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>practise-pitch results</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111827; margin: 2rem; }
+  section { break-after: page; }
+  section:last-child { break-after: auto; }
+  h1 { font-size: 1.25rem; margin: 0 0 0.25rem; }
+  table { border-collapse: collapse; margin: 0.75rem 0; }
+  th, td { text-align: left; padding: 0.2rem 1rem 0.2rem 0; }
+  li { break-inside: avoid; margin-bottom: 0.75rem; }
+  li p { margin: 0.15rem 0; }
+  .q { font-weight: 600; white-space: pre-wrap; }
+  .meta { color: #6b7280; font-size: 0.85rem; }
+  .correct .meta { color: #15803d; }
+  .incorrect .meta { color: #b91c1c; }
+</style>
+</head>
+<body>${sections}</body>
+</html>`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c] as string);
+}
+
+// Opened before any awaits, while the click still counts as a user action,
+// so pop-up blockers allow it
+export function openPrintWindow(): Window {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error('Allow pop-ups to open the print view');
+  win.document.write('<p style="font-family: system-ui, sans-serif">Preparing…</p>');
+  return win;
+}
+
+/**
+ * Downloads the results as CSV or JSON, or shows them in the print view
+ * (opening one if `printWindow` isn't given).
+ */
+export function exportResults(details: ResultDetail[], format: ExportFormat, fileName: string, printWindow?: Window) {
+  if (format === 'print') {
+    const win = printWindow ?? openPrintWindow();
+    win.document.open();
+    win.document.write(resultsToPrintHtml(details));
+    win.document.close();
+    win.focus();
+    win.print();
+    return;
+  }
+  // The BOM makes spreadsheet apps read the CSV as UTF-8 (Hindi questions)
+  const content = format === 'csv' ? `\uFEFF${resultsToCsv(details)}` : resultsToJson(details);
+  const blob = new Blob([content], { type: format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName}.${format}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
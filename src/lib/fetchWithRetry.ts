@@ -0,0 +1,98 @@
+// Our backend host sleeps when idle: the first request after a quiet period
+// tends to time out or get a 502 while the instance boots. These helpers retry
+// such transient failures with exponential backoff.
+
+export interface RetryAttempt {
+  attempt: number; // the attempt about to be made, 1-based
+  maxAttempts: number;
+  delayMs: number;
+  reason: string;
+}
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  timeoutMs?: number; // per attempt, until response headers arrive
+  signal?: AbortSignal;
+  onRetry?: (info: RetryAttempt) => void;
+}
+
+const TRANSIENT_STATUSES = new Set([408, 502, 503, 504]);
+
+export function isTransientStatus(status: number): boolean {
+  return TRANSIENT_STATUSES.has(status);
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+/**
+ * `fetch` with retries for network errors, timeouts and transient HTTP
+ * statuses. Non-transient responses (including errors like 401) are returned
+ * as-is for the caller to interpret. Aborting `signal` cancels both the
+ * in-flight request and any pending backoff.
+ */
+export async function fetchWithRetry(
+  input: string,
+  init: RequestInit = {},
+  options: RetryOptions = {},
+): Promise<Response> {
+  const { maxAttempts = 4, baseDelayMs = 1000, maxDelayMs = 8000, timeoutMs, signal, onRetry } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+
+    // One controller per attempt so a timeout only kills this attempt, while
+    // the caller's signal still reaches the body once the response is returned
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let handedOver = false;
+    let timedOut = false;
+    const timer = timeoutMs
+      ? setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs)
+      : undefined;
+
+    let reason: string;
+    try {
+      const resp = await fetch(input, { ...init, signal: controller.signal });
+      if (!isTransientStatus(resp.status) || attempt >= maxAttempts) {
+        handedOver = true;
+        return resp;
+      }
+      reason = `${resp.status} ${resp.statusText}`.trim();
+      resp.body?.cancel().catch(() => {});
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      if (attempt >= maxAttempts) {
+        throw timedOut ? new Error(`Request timed out after ${maxAttempts} attempts`) : err;
+      }
+      reason = timedOut ? 'timed out' : 'network error';
+    } finally {
+      clearTimeout(timer);
+      // Only the returned response still needs the caller's signal
+      if (!handedOver) signal?.removeEventListener('abort', onAbort);
+    }
+
+    const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    const delayMs = Math.round(backoff * (0.8 + Math.random() * 0.4)); // ±20% jitter
+    onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, reason });
+    await sleep(delayMs, signal);
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,46 @@
+// Time spent outside the quiz tab. In 'pause' mode the quiz clocks stop while
+// the tab is hidden; in 'flag' mode they keep running and the absence is only
+// recorded. Either way every absence is logged against the question on screen.
+
+export type AwayTimingMode = 'pause' | 'flag';
+
+export interface FocusLoss {
+  leftAt: number; // epoch ms
+  durationMs: number;
+}
+
+export type FocusLog = Record<number, FocusLoss[]>; // by question index
+
+// Saved with the result
+export interface FocusReport {
+  mode: AwayTimingMode;
+  log: FocusLog;
+}
+
+export function appendFocusLoss(log: FocusLog, index: number, loss: FocusLoss): FocusLog {
+  return { ...log, [index]: [...(log[index] || []), loss] };
+}
+
+export function summarizeFocusLosses(losses: FocusLoss[]): { count: number; totalMs: number } {
+  return { count: losses.length, totalMs: losses.reduce((sum, loss) => sum + loss.durationMs, 0) };
+}
+
+// "left the tab 3 times, 2m 10s away"
+export function describeFocusLosses(losses: FocusLoss[]): string {
+  const { count, totalMs } = summarizeFocusLosses(losses);
+  if (count === 0) return 'Stayed on the tab';
+  return `Left the tab ${count} time${count === 1 ? '' : 's'}, ${formatAway(totalMs)} away`;
+}
+
+// Whole-quiz summary, noting whether the away time was counted
+export function describeFocusReport(report: FocusReport): string {
+  const losses = Object.values(report.log).flat();
+  if (losses.length === 0) return describeFocusLosses(losses);
+  return `${describeFocusLosses(losses)} (${report.mode === 'pause' ? 'clock paused while away' : 'included in the times'})`;
+}
+
+function formatAway(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
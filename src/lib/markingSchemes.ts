@@ -0,0 +1,85 @@
+import type { ItemType, UserAnswers } from '../types/quiz';
+import { decodeMultiSelect, isAttempted, scoreItem, type QuizItem } from './quizItems';
+
+// How an exam awards marks for auto-graded questions. Subjective answers are
+// marked by the evaluator instead and are not covered here.
+export interface MarkingScheme {
+  id: MarkingSchemeId;
+  label: string;
+  correct: number; // marks for a fully correct answer
+  wrong: number; // marks for a wrong answer, negative for a penalty
+  unattempted: number;
+  // Multi-select: pro-rata credit when only correct options were chosen but
+  // some were missed. Any wrong option still counts as a wrong answer.
+  partialCredit: boolean;
+  noPenaltyTypes?: ItemType[]; // e.g. numeric answers in JEE and CAT
+}
+
+export type MarkingSchemeId = 'standard' | 'upsc-prelims' | 'neet' | 'jee-main' | 'jee-advanced' | 'cat';
+
+export const MARKING_SCHEMES: Record<MarkingSchemeId, MarkingScheme> = {
+  'standard': { id: 'standard', label: 'Standard (+1, no negative)', correct: 1, wrong: 0, unattempted: 0, partialCredit: false },
+  'upsc-prelims': { id: 'upsc-prelims', label: 'UPSC Prelims (+2, −⅓ of marks)', correct: 2, wrong: -2 / 3, unattempted: 0, partialCredit: false },
+  'neet': { id: 'neet', label: 'NEET (+4, −1)', correct: 4, wrong: -1, unattempted: 0, partialCredit: false },
+  'jee-main': { id: 'jee-main', label: 'JEE Main (+4, −1)', correct: 4, wrong: -1, unattempted: 0, partialCredit: false, noPenaltyTypes: ['Numeric'] },
+  'jee-advanced': { id: 'jee-advanced', label: 'JEE Advanced (+4, −2, partial)', correct: 4, wrong: -2, unattempted: 0, partialCredit: true, noPenaltyTypes: ['Numeric'] },
+  'cat': { id: 'cat', label: 'CAT (+3, −1)', correct: 3, wrong: -1, unattempted: 0, partialCredit: false, noPenaltyTypes: ['Numeric'] },
+};
+
+/**
+ * Marks for one answer under `scheme`, or null for subjective questions.
+ */
+export function markItem(item: QuizItem, userAnswer: string | undefined, scheme: MarkingScheme): number | null {
+  const verdict = scoreItem(item, userAnswer);
+  if (verdict === null) return null;
+  if (!isAttempted(userAnswer)) return scheme.unattempted;
+  if (verdict) return scheme.correct;
+
+  if (scheme.partialCredit && item.type === 'MultiSelect') {
+    const chosen = decodeMultiSelect(userAnswer);
+    if (chosen.length > 0 && chosen.every((letter) => item.answer.includes(letter))) {
+      return scheme.correct * (chosen.length / item.answer.length);
+    }
+  }
+  return scheme.noPenaltyTypes?.includes(item.type) ? 0 : scheme.wrong;
+}
+
+export interface ScoreSummary {
+  raw: number; // marks earned before penalties
+  net: number; // raw plus penalties and unattempted marks
+  max: number;
+  correct: number;
+  wrong: number; // includes partially correct answers
+  attempted: number;
+  gradable: number;
+  accuracy: number; // correct / attempted, 0–1
+}
+
+export function computeScoreSummary(items: QuizItem[], userAnswers: UserAnswers, scheme: MarkingScheme): ScoreSummary {
+  const summary: ScoreSummary = { raw: 0, net: 0, max: 0, correct: 0, wrong: 0, attempted: 0, gradable: 0, accuracy: 0 };
+  items.forEach((item, index) => {
+    const marks = markItem(item, userAnswers[index], scheme);
+    if (marks === null) return;
+    summary.gradable++;
+    summary.max += scheme.correct;
+    summary.net += marks;
+    if (!isAttempted(userAnswers[index])) return;
+    summary.attempted++;
+    if (marks > 0) summary.raw += marks;
+    if (marks === scheme.correct) summary.correct++;
+    else summary.wrong++;
+  });
+  summary.raw = round2(summary.raw);
+  summary.net = round2(summary.net);
+  summary.accuracy = summary.attempted > 0 ? summary.correct / summary.attempted : 0;
+  return summary;
+}
+
+// Penalties like −2/3 produce long fractions; two decimals is what exams print
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+export function formatMarks(n: number): string {
+  return String(round2(n));
+}
@@ -0,0 +1,84 @@
+import { saveResultsToBackend, type SaveResultsPayload } from '../services/resultsApi';
+
+// Result saves that didn't reach the backend, kept in localStorage and retried
+// later. Each entry carries the idempotency key of its first attempt, so a
+// save that did land before the connection dropped isn't stored twice.
+
+const STORAGE_PREFIX = 'practise-pitch-outbox:';
+
+export interface OutboxEntry {
+  idempotencyKey: string;
+  payload: SaveResultsPayload;
+  createdAt: number;
+  attempts: number;
+  lastError: string | null;
+}
+
+export function listOutbox(userId: string): OutboxEntry[] {
+  try {
+    const entries = JSON.parse(localStorage.getItem(STORAGE_PREFIX + userId) || '[]');
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+}
+
+// False when storage is full or unavailable and the queue wasn't updated
+function writeOutbox(userId: string, entries: OutboxEntry[]): boolean {
+  try {
+    if (entries.length === 0) localStorage.removeItem(STORAGE_PREFIX + userId);
+    else localStorage.setItem(STORAGE_PREFIX + userId, JSON.stringify(entries));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Returns whether the save was queued; if not, it would be lost on reload
+export function enqueueResult(userId: string, entry: Omit<OutboxEntry, 'createdAt'>): boolean {
+  const others = listOutbox(userId).filter((e) => e.idempotencyKey !== entry.idempotencyKey);
+  return writeOutbox(userId, [...others, { ...entry, createdAt: Date.now() }]);
+}
+
+export function discardOutboxEntry(userId: string, idempotencyKey: string) {
+  writeOutbox(userId, listOutbox(userId).filter((e) => e.idempotencyKey !== idempotencyKey));
+}
+
+/**
+ * Re-sends queued saves, oldest first. Sent entries are removed; failures stay
+ * queued with their error. Pass `only` to retry a single entry.
+ */
+export async function flushOutbox(params: {
+  userId: string;
+  resultsUrl: string;
+  accessToken?: string;
+  only?: string; // idempotency key
+  onSaved?: (idempotencyKey: string, resultId: string | null) => void;
+}): Promise<OutboxEntry[]> {
+  const { userId, resultsUrl, accessToken, only, onSaved } = params;
+  // Nothing would be sent, so nothing counts as an attempt
+  if (!navigator.onLine) return listOutbox(userId);
+
+  for (const entry of listOutbox(userId)) {
+    if (only && entry.idempotencyKey !== only) continue;
+    try {
+      // One attempt each: the outbox itself is the retry mechanism
+      const resultId = await saveResultsToBackend({
+        resultsUrl,
+        accessToken,
+        payload: entry.payload,
+        idempotencyKey: entry.idempotencyKey,
+        maxAttempts: 1,
+      });
+      discardOutboxEntry(userId, entry.idempotencyKey);
+      onSaved?.(entry.idempotencyKey, resultId);
+    } catch (err) {
+      // Re-read so entries discarded meanwhile aren't resurrected
+      const current = listOutbox(userId);
+      writeOutbox(userId, current.map((e) => e.idempotencyKey === entry.idempotencyKey
+        ? { ...e, attempts: e.attempts + 1, lastError: err instanceof Error ? err.message : 'Failed to save results' }
+        : e));
+    }
+  }
+  return listOutbox(userId);
+}
@@ -0,0 +1,49 @@
+import type { ApiResponseData } from '../types/quiz';
+import type { QuizRequestConfig } from '../services/quizApi';
+
+// Small LRU of quizzes generated ahead of time, keyed by the config that
+// produced them. A prefetched set is only ever reused for an identical config.
+
+export interface PrefetchCache {
+  has(key: string): boolean;
+  take(key: string): ApiResponseData | undefined; // removes the entry: a set is played once
+  set(key: string, data: ApiResponseData): void;
+  retainOnly(key: string): void;
+  clear(): void;
+}
+
+export function createPrefetchCache(limit = 2): PrefetchCache {
+  const entries = new Map<string, ApiResponseData>();
+
+  return {
+    has: (key) => entries.has(key),
+    take(key) {
+      const data = entries.get(key);
+      entries.delete(key);
+      return data;
+    },
+    set(key, data) {
+      entries.delete(key);
+      entries.set(key, data);
+      // Map iteration order is insertion order, so the first key is the oldest
+      while (entries.size > limit) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+      }
+    },
+    retainOnly(key) {
+      for (const k of [...entries.keys()]) {
+        if (k !== key) entries.delete(k);
+      }
+    },
+    clear: () => entries.clear(),
+  };
+}
+
+export function prefetchKeyFor(config: QuizRequestConfig): string {
+  const { exam, q_no, difficulty, topic, questionType, language, mix } = config;
+  return JSON.stringify([
+    exam.trim().toLowerCase(), q_no, difficulty, topic.trim().toLowerCase(), questionType, language,
+    questionType === 'Mixed' ? mix : null,
+  ]);
+}
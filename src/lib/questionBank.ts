@@ -0,0 +1,122 @@
+import type { Confidence } from './calibration';
+import { getItemText, type QuizItem } from './quizItems';
+
+// Questions the user kept for revision, stored in localStorage per user and
+// scheduled with SM-2: each review's quality (0–5) stretches or resets the
+// gap before the question comes back.
+
+const STORAGE_PREFIX = 'practise-pitch-bank:';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASINESS = 1.3;
+
+export interface ReviewState {
+  easiness: number;
+  intervalDays: number;
+  repetitions: number; // successful reviews in a row
+  dueAt: number; // epoch ms
+  lastReviewedAt: number | null;
+}
+
+export interface BankItem {
+  id: string;
+  item: QuizItem;
+  exam: string;
+  topic: string;
+  source: 'manual' | 'missed'; // saved by the user, or added after a wrong MCQ answer
+  addedAt: number;
+  review: ReviewState;
+}
+
+export type NewBankItem = Pick<BankItem, 'item' | 'exam' | 'topic' | 'source'>;
+
+// Same type and text means the same question, so it's only banked once
+export function bankItemId(item: QuizItem): string {
+  return `${item.type}:${getItemText(item).trim().toLowerCase()}`;
+}
+
+export function listBank(userId: string): BankItem[] {
+  try {
+    const items = JSON.parse(localStorage.getItem(STORAGE_PREFIX + userId) || '[]');
+    return Array.isArray(items) ? items : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeBank(userId: string, items: BankItem[]) {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + userId, JSON.stringify(items));
+  } catch {
+    // Storage full or unavailable: the change lasts for this page only
+  }
+}
+
+/**
+ * Adds questions that aren't banked yet; new items are due straight away.
+ * Returns the updated bank.
+ */
+export function addToBank(userId: string, entries: NewBankItem[], now = Date.now()): BankItem[] {
+  const bank = listBank(userId);
+  const known = new Set(bank.map((b) => b.id));
+  for (const entry of entries) {
+    const id = bankItemId(entry.item);
+    if (known.has(id)) continue;
+    known.add(id);
+    bank.push({
+      ...entry,
+      id,
+      addedAt: now,
+      review: { easiness: 2.5, intervalDays: 0, repetitions: 0, dueAt: now, lastReviewedAt: null },
+    });
+  }
+  writeBank(userId, bank);
+  return bank;
+}
+
+export function removeFromBank(userId: string, id: string): BankItem[] {
+  const bank = listBank(userId).filter((b) => b.id !== id);
+  writeBank(userId, bank);
+  return bank;
+}
+
+// Everything due by the end of today, most overdue first
+export function dueBankItems(bank: BankItem[], now = Date.now()): BankItem[] {
+  const endOfToday = new Date(now);
+  endOfToday.setHours(23, 59, 59, 999);
+  return bank
+    .filter((b) => b.review.dueAt <= endOfToday.getTime())
+    .sort((a, b) => a.review.dueAt - b.review.dueAt);
+}
+
+/**
+ * SM-2 quality for one answer. `score` is the share of marks earned (0–1);
+ * confidence separates a confident recall from a lucky guess.
+ */
+export function reviewQuality(score: number, confidence?: Confidence): number {
+  if (score >= 1) return confidence === 'sure' ? 5 : confidence === 'guess' ? 3 : 4;
+  if (score >= 0.5) return 3;
+  return confidence === 'sure' ? 0 : 1;
+}
+
+export function scheduleReview(state: ReviewState, quality: number, now = Date.now()): ReviewState {
+  const q = Math.max(0, Math.min(5, quality));
+  const easiness = Math.max(MIN_EASINESS, state.easiness + 0.1 - (5 - q) * (0.08 + (5 - q) * 0.02));
+  if (q < 3) {
+    // Forgotten: start over, and see it again tomorrow
+    return { easiness, intervalDays: 1, repetitions: 0, dueAt: now + DAY_MS, lastReviewedAt: now };
+  }
+  const repetitions = state.repetitions + 1;
+  const intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(state.intervalDays * easiness);
+  return { easiness, intervalDays, repetitions, dueAt: now + intervalDays * DAY_MS, lastReviewedAt: now };
+}
+
+// Applies one revision session's results. Returns the updated bank.
+export function recordReviews(userId: string, outcomes: { id: string; quality: number }[], now = Date.now()): BankItem[] {
+  const qualities = new Map(outcomes.map((o) => [o.id, o.quality]));
+  const bank = listBank(userId).map((b) => {
+    const quality = qualities.get(b.id);
+    return quality === undefined ? b : { ...b, review: scheduleReview(b.review, quality, now) };
+  });
+  writeBank(userId, bank);
+  return bank;
+}
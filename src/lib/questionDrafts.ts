@@ -0,0 +1,166 @@
+import type { ItemType } from '../types/quiz';
+import { optionLetter, type QuizItem } from './quizItems';
+
+// Editable form of a question. Options are kept without their letters and
+// answers point at options by position, so options can be added, removed
+// and reworded without the answer drifting; letters are assigned again when
+// the draft becomes a QuizItem.
+
+export type QuestionDraft =
+  | { type: 'MCQ' | 'MultiSelect'; text: string; options: string[]; correct: number[] }
+  | { type: 'TrueFalse'; text: string; answer: boolean | null }
+  | { type: 'Numeric'; text: string; unit: string; answer: string; tolerance: string }
+  | { type: 'AssertionReason'; assertion: string; reason: string; answer: string }
+  | { type: 'Subjective'; text: string };
+
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 6;
+export const ASSERTION_REASON_LETTERS = ['A', 'B', 'C', 'D'];
+
+const LETTER_PREFIX = /^\s*[A-Za-z][.)]\s*/;
+
+export function itemToDraft(item: QuizItem): QuestionDraft {
+  switch (item.type) {
+    case 'MCQ':
+    case 'MultiSelect': {
+      const letters = item.question.Options.map(optionLetter);
+      const answer = item.type === 'MCQ' ? [item.answer] : item.answer;
+      return {
+        type: item.type,
+        text: item.question.Q,
+        options: item.question.Options.map((o) => o.replace(LETTER_PREFIX, '')),
+        correct: letters.flatMap((letter, i) => (answer.includes(letter) ? [i] : [])),
+      };
+    }
+    case 'TrueFalse':
+      return { type: 'TrueFalse', text: item.question, answer: item.answer };
+    case 'Numeric':
+      return {
+        type: 'Numeric',
+        text: item.question.Q,
+        unit: item.question.Unit ?? '',
+        answer: String(item.answer),
+        tolerance: item.tolerance ? String(item.tolerance) : '',
+      };
+    case 'AssertionReason':
+      return { type: 'AssertionReason', assertion: item.question.Assertion, reason: item.question.Reason, answer: item.answer };
+    case 'Subjective':
+      return { type: 'Subjective', text: item.question };
+  }
+}
+
+// A blank question of the given type, keeping whatever question text `from` had
+export function emptyDraft(type: ItemType, from?: QuestionDraft): QuestionDraft {
+  const text = from ? draftText(from) : '';
+  switch (type) {
+    case 'MCQ':
+    case 'MultiSelect': {
+      // Switching between single and multiple answers keeps the options
+      if (from && (from.type === 'MCQ' || from.type === 'MultiSelect')) {
+        return { ...from, type, correct: type === 'MCQ' ? from.correct.slice(0, 1) : from.correct };
+      }
+      return { type, text, options: ['', '', '', ''], correct: [] };
+    }
+    case 'TrueFalse':
+      return { type, text, answer: null };
+    case 'Numeric':
+      return { type, text, unit: '', answer: '', tolerance: '' };
+    case 'AssertionReason':
+      return { type, assertion: text, reason: '', answer: '' };
+    case 'Subjective':
+      return { type, text };
+  }
+}
+
+export function draftText(draft: QuestionDraft): string {
+  return draft.type === 'AssertionReason' ? draft.assertion : draft.text;
+}
+
+/**
+ * Everything that stops the draft from being a valid question: empty text,
+ * too few, blank or duplicate options, and a missing or out-of-range answer.
+ */
+export function validateDraft(draft: QuestionDraft): string[] {
+  const problems: string[] = [];
+  if (draft.type === 'AssertionReason') {
+    if (!draft.assertion.trim()) problems.push('The assertion is empty');
+    if (!draft.reason.trim()) problems.push('The reason is empty');
+    if (!ASSERTION_REASON_LETTERS.includes(draft.answer)) problems.push('Pick the correct option');
+    return problems;
+  }
+  if (!draft.text.trim()) problems.push('The question is empty');
+
+  switch (draft.type) {
+    case 'MCQ':
+    case 'MultiSelect': {
+      if (draft.options.length < MIN_OPTIONS) problems.push(`Give at least ${MIN_OPTIONS} options`);
+      if (draft.options.length > MAX_OPTIONS) problems.push(`Give at most ${MAX_OPTIONS} options`);
+      const blank = draft.options.flatMap((o, i) => (o.trim() ? [] : [letterAt(i)]));
+      if (blank.length > 0) problems.push(`Option${blank.length === 1 ? '' : 's'} ${blank.join(', ')} ${blank.length === 1 ? 'is' : 'are'} empty`);
+      const seen = new Map<string, number>();
+      draft.options.forEach((o, i) => {
+        const key = o.trim().toLowerCase().replace(/\s+/g, ' ');
+        if (!key) return;
+        const first = seen.get(key);
+        if (first === undefined) seen.set(key, i);
+        else problems.push(`Options ${letterAt(first)} and ${letterAt(i)} are the same`);
+      });
+      const correct = draft.correct.filter((i) => i < draft.options.length);
+      if (correct.length === 0) problems.push('Mark the correct answer');
+      else if (draft.type === 'MCQ' && correct.length > 1) problems.push('An MCQ has exactly one correct answer');
+      break;
+    }
+    case 'TrueFalse':
+      if (draft.answer === null) problems.push('Pick true or false');
+      break;
+    case 'Numeric': {
+      if (!draft.answer.trim()) problems.push('The answer is empty');
+      else if (!Number.isFinite(Number(draft.answer))) problems.push('The answer must be a number');
+      const tolerance = Number(draft.tolerance || 0);
+      if (!Number.isFinite(tolerance) || tolerance < 0) problems.push('The tolerance must be zero or more');
+      break;
+    }
+    case 'Subjective':
+      break;
+  }
+  return problems;
+}
+
+// The question for a draft that passes validateDraft; `no` is its 1-based number
+export function draftToItem(draft: QuestionDraft, no: number): QuizItem {
+  switch (draft.type) {
+    case 'MCQ':
+    case 'MultiSelect': {
+      const question = {
+        No: no,
+        Q: draft.text.trim(),
+        Options: draft.options.map((o, i) => `${letterAt(i)}. ${o.trim()}`),
+      };
+      const letters = [...draft.correct].sort((a, b) => a - b).map(letterAt);
+      return draft.type === 'MCQ'
+        ? { type: 'MCQ', question, answer: letters[0] }
+        : { type: 'MultiSelect', question, answer: letters };
+    }
+    case 'TrueFalse':
+      return { type: 'TrueFalse', question: draft.text.trim(), answer: draft.answer === true };
+    case 'Numeric':
+      return {
+        type: 'Numeric',
+        question: { No: no, Q: draft.text.trim(), ...(draft.unit.trim() ? { Unit: draft.unit.trim() } : {}) },
+        answer: Number(draft.answer),
+        tolerance: Number(draft.tolerance || 0),
+      };
+    case 'AssertionReason':
+      return {
+        type: 'AssertionReason',
+        question: { No: no, Assertion: draft.assertion.trim(), Reason: draft.reason.trim() },
+        answer: draft.answer,
+      };
+    case 'Subjective':
+      return { type: 'Subjective', question: draft.text.trim() };
+  }
+}
+
+export function letterAt(index: number): string {
+  return String.fromCharCode(65 + index);
+}
@@ -0,0 +1,121 @@
+import type { ApiResponseData, QuestionType } from '../types/quiz';
+
+// Events emitted by `/generate-questions` when it streams (SSE or NDJSON).
+// The backend sends one `meta` event first, then one `question` event per
+// generated question, and finally `done` (or `error`).
+export type QuestionStreamEvent =
+  | { type: 'meta'; questionType: QuestionType; total: number }
+  | { type: 'question'; question: unknown; answer?: unknown; tolerance?: number }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+export interface StreamedQuiz {
+  data: ApiResponseData | null;
+  total: number | null;
+  done: boolean;
+}
+
+/**
+ * True when the backend answered with a streaming body instead of the
+ * classic one-shot JSON payload.
+ */
+export function isStreamingResponse(resp: Response): boolean {
+  const contentType = resp.headers.get('content-type') || '';
+  return contentType.includes('text/event-stream') || contentType.includes('application/x-ndjson');
+}
+
+/**
+ * Reads an SSE or NDJSON body and yields parsed question events.
+ * Breaking out of the loop cancels the underlying reader.
+ */
+export async function* readQuestionStream(resp: Response): AsyncGenerator<QuestionStreamEvent> {
+  if (!resp.body) return;
+  const isSse = (resp.headers.get('content-type') || '').includes('text/event-stream');
+  const reader = resp.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      // SSE events are separated by a blank line, NDJSON records by a newline
+      const separator = isSse ? /\r?\n\r?\n/ : /\r?\n/;
+      const chunks = buffer.split(separator);
+      buffer = done ? '' : chunks.pop() ?? '';
+
+      for (const chunk of chunks) {
+        const event = isSse ? parseSseChunk(chunk) : parseJsonEvent(chunk, undefined);
+        if (event) yield event;
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Folds a stream event into the quiz built so far. Returns a new object so it
+ * can be handed straight to React state. The result is not validated here;
+ * callers run it through `validateQuizData`.
+ */
+export function applyStreamEvent(current: StreamedQuiz, event: QuestionStreamEvent): StreamedQuiz {
+  switch (event.type) {
+    case 'meta':
+      return {
+        ...current,
+        total: event.total,
+        data: current.data ?? emptyQuiz(event.questionType),
+      };
+    case 'question': {
+      const data: Record<string, unknown[] | string> = { ...(current.data ?? emptyQuiz('MCQ')) };
+      data.QuestionArray = [...(data.QuestionArray as unknown[]), event.question];
+      if (Array.isArray(data.AnswerArray)) data.AnswerArray = [...data.AnswerArray, event.answer];
+      if (data.questionType === 'Numeric') {
+        data.ToleranceArray = [...((data.ToleranceArray as unknown[] | undefined) ?? []), event.tolerance ?? 0];
+      }
+      return { ...current, data: data as unknown as ApiResponseData };
+    }
+    case 'done':
+      return { ...current, done: true };
+    case 'error':
+      throw new Error(event.message || 'Question generation failed');
+  }
+}
+
+function emptyQuiz(questionType: QuestionType): ApiResponseData {
+  // Subjective has no answers and Mixed questions carry their own
+  if (questionType === 'Subjective' || questionType === 'Mixed') return { questionType, QuestionArray: [] };
+  return { questionType, QuestionArray: [], AnswerArray: [] } as ApiResponseData;
+}
+
+function parseSseChunk(chunk: string): QuestionStreamEvent | null {
+  let eventName: string | undefined;
+  const dataLines: string[] = [];
+  for (const line of chunk.split(/\r?\n/)) {
+    if (line.startsWith(':')) continue; // comment / keep-alive
+    if (line.startsWith('event:')) eventName = line.slice(6).trim();
+    else if (line.startsWith('data:')) dataLines.push(line.slice(5).replace(/^ /, ''));
+  }
+  if (dataLines.length === 0) return eventName === 'done' ? { type: 'done' } : null;
+  return parseJsonEvent(dataLines.join('\n'), eventName);
+}
+
+function parseJsonEvent(raw: string, eventName: string | undefined): QuestionStreamEvent | null {
+  const text = raw.trim();
+  if (!text) return null;
+  if (text === '[DONE]') return { type: 'done' };
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const type = (parsed.type as string | undefined) ?? eventName;
+  if (type === 'meta' || type === 'question' || type === 'done' || type === 'error') {
+    return { ...parsed, type } as QuestionStreamEvent;
+  }
+  return null;
+}
@@ -0,0 +1,204 @@
+import type { ApiResponseData, McqQuestion, MixedQuestion } from '../types/quiz';
+import { QuizApiError, validateQuizData } from '../services/quizApi';
+import { getItemText, getQuizItems, itemsToQuiz, optionLetter } from './quizItems';
+
+// Question sets curated outside the app. A JSON file holds quiz data in the
+// shape the backend returns (optionally wrapped in { data }); a CSV file has a
+// header row and one question per row. Each question is checked on its own so
+// a few bad rows don't reject the whole file.
+
+export const MAX_IMPORT_BYTES = 1024 * 1024;
+
+export interface ImportRow {
+  number: number; // 1-based question number in the file
+  text: string;
+  error: string | null;
+}
+
+export interface ImportPreview {
+  quiz: ApiResponseData | null; // the valid rows, null if there are none
+  rows: ImportRow[];
+}
+
+/**
+ * Parses and validates an import file. Throws for problems with the file as
+ * a whole (unreadable, wrong shape); row problems are reported per row.
+ */
+export function parseImportFile(fileName: string, text: string): ImportPreview {
+  if (/\.csv$/i.test(fileName)) return parseCsvQuiz(text);
+  if (/\.json$/i.test(fileName)) return parseJsonQuiz(text);
+  throw new Error('Choose a .json or .csv file');
+}
+
+// --- JSON ---
+
+function parseJsonQuiz(text: string): ImportPreview {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The file isn't valid JSON");
+  }
+  const root = parsed as { data?: unknown } | null;
+  const data = (root && typeof root === 'object' && 'data' in root ? root.data : parsed) as Record<string, unknown> | null;
+  if (!data || typeof data !== 'object' || !Array.isArray(data.QuestionArray)) {
+    throw new Error('Expected an object with questionType and QuestionArray');
+  }
+  const total = data.QuestionArray.length;
+  if (total === 0) throw new Error('The file has no questions');
+  if (data.questionType !== 'Subjective' && data.questionType !== 'Mixed'
+    && (!Array.isArray(data.AnswerArray) || data.AnswerArray.length !== total)) {
+    throw new Error(`AnswerArray must have one answer for each of the ${total} questions`);
+  }
+
+  const rows: ImportRow[] = [];
+  const valid: number[] = [];
+  for (let i = 0; i < total; i++) {
+    const single = pickRows(data, [i]);
+    const error = validationError(single, i);
+    rows.push({ number: i + 1, text: questionText(single), error });
+    if (!error) valid.push(i);
+  }
+  return { quiz: valid.length > 0 ? validateQuizData(pickRows(data, valid)) : null, rows };
+}
+
+// Keeps the given questions along with their answers and tolerances
+function pickRows(data: Record<string, unknown>, indices: number[]): Record<string, unknown> {
+  const picked: Record<string, unknown> = { ...data };
+  for (const key of ['QuestionArray', 'AnswerArray', 'ToleranceArray']) {
+    const list = data[key];
+    if (Array.isArray(list)) picked[key] = indices.map((i) => list[i]);
+  }
+  return picked;
+}
+
+// --- CSV ---
+
+/**
+ * Columns (case-insensitive): question, answer, and either `options`
+ * (separated by "|") or one column per option (`a`, `b`, … or `option a`, …).
+ * The answer picks the type: letters with options make an MCQ ("A,C" a
+ * multi-select), true/false a true/false question, a number a numeric one,
+ * and no answer a subjective question.
+ */
+function parseCsvQuiz(text: string): ImportPreview {
+  const [header, ...records] = parseCsv(text).filter((row) => row.some((cell) => cell.trim() !== ''));
+  if (!header) throw new Error('The file is empty');
+  const columns = header.map((h) => h.trim().toLowerCase());
+  const questionCol = columns.indexOf('question');
+  const answerCol = columns.indexOf('answer');
+  const optionsCol = columns.indexOf('options');
+  const optionCols = columns.flatMap((c, i) => (/^(option )?[a-f]$/.test(c) ? [i] : []));
+  if (questionCol < 0) throw new Error('Missing a "question" column');
+  if (answerCol < 0) throw new Error('Missing an "answer" column');
+  if (records.length === 0) throw new Error('The file has no questions');
+
+  const rows: ImportRow[] = [];
+  const valid: MixedQuestion[] = [];
+  records.forEach((record, i) => {
+    const cell = (col: number) => (record[col] ?? '').trim();
+    const options = optionsCol >= 0
+      ? cell(optionsCol).split('|').map((o) => o.trim()).filter(Boolean)
+      : optionCols.map(cell).filter(Boolean);
+    const built = buildCsvQuestion(cell(questionCol), options, cell(answerCol), i + 1);
+    if (typeof built === 'string') {
+      rows.push({ number: i + 1, text: cell(questionCol), error: built });
+      return;
+    }
+    const error = validationError({ questionType: 'Mixed', QuestionArray: [built] }, i);
+    rows.push({ number: i + 1, text: cell(questionCol), error });
+    if (!error) valid.push(built);
+  });
+
+  if (valid.length === 0) return { quiz: null, rows };
+  // A file of plain MCQs stays an MCQ quiz; anything else becomes a mixed paper
+  const items = getQuizItems({ questionType: 'Mixed', QuestionArray: valid });
+  return { quiz: validateQuizData(itemsToQuiz(items)), rows };
+}
+
+// The question for one CSV row, or why it can't be built
+function buildCsvQuestion(question: string, options: string[], answer: string, no: number): MixedQuestion | string {
+  if (!question) return 'The question is empty';
+  if (options.length > 0) {
+    if (options.length < 2) return 'Give at least two options';
+    // "A. Delhi" keeps its letter; a bare "Delhi" gets the next one
+    const lettered = options.map((o, i) => (/^[A-Z][.)]\s/.test(o) ? o : `${String.fromCharCode(65 + i)}. ${o}`));
+    // The answer is letters ("B", "A,C") or the text of one or more options
+    const letters = answer.split(/[,;|]/).map((a) => a.trim()).filter(Boolean).map((a) => {
+      const byText = lettered.find((o) => o.slice(3).trim().toLowerCase() === a.toLowerCase());
+      return byText ? optionLetter(byText) : a.toUpperCase();
+    });
+    if (letters.length === 0) return 'The answer is empty';
+    const unknown = letters.find((l) => !lettered.some((o) => optionLetter(o) === l));
+    if (unknown) return `The answer "${unknown}" isn't one of the options`;
+    const q: McqQuestion = { No: no, Q: question, Options: lettered };
+    return letters.length === 1 ? { type: 'MCQ', Question: q, Answer: letters[0] } : { type: 'MultiSelect', Question: q, Answer: letters };
+  }
+  if (!answer) return { type: 'Subjective', Question: question };
+  if (/^(true|false)$/i.test(answer)) return { type: 'TrueFalse', Question: question, Answer: answer.toLowerCase() === 'true' };
+  const value = Number(answer);
+  if (Number.isFinite(value)) return { type: 'Numeric', Question: { No: no, Q: question }, Answer: value };
+  return 'Add options, or use true/false or a number as the answer';
+}
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i];
+    if (quoted) {
+      if (c === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// --- shared ---
+
+// validateQuizData's message for a one-question quiz, renumbered to the file's row
+function validationError(single: unknown, index: number): string | null {
+  try {
+    validateQuizData(single);
+    return null;
+  } catch (err) {
+    if (!(err instanceof QuizApiError)) throw err;
+    return err.message.replace(/^Malformed quiz payload: /, '').replace(/\bquestion 1\b/, `question ${index + 1}`);
+  }
+}
+
+function questionText(single: Record<string, unknown>): string {
+  try {
+    const [item] = getQuizItems(single as unknown as ApiResponseData);
+    return item ? getItemText(item) : '';
+  } catch {
+    return '';
+  }
+}
@@ -0,0 +1,214 @@
+import type {
+  ApiResponseData,
+  AssertionReasonQuestion,
+  ItemType,
+  McqQuestion,
+  MixedQuestion,
+  NumericQuestion,
+  QuestionMix,
+  QuestionType,
+} from '../types/quiz';
+
+// The API groups questions by type (parallel QuestionArray/AnswerArray). The
+// UI and scoring work one question at a time, so they use this per-question
+// view instead.
+export type QuizItem =
+  | { type: 'MCQ'; question: McqQuestion; answer: string }
+  | { type: 'Subjective'; question: string }
+  | { type: 'MultiSelect'; question: McqQuestion; answer: string[] }
+  | { type: 'TrueFalse'; question: string; answer: boolean }
+  | { type: 'Numeric'; question: NumericQuestion; answer: number; tolerance: number }
+  | { type: 'AssertionReason'; question: AssertionReasonQuestion; answer: string };
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  MCQ: 'MCQ',
+  MultiSelect: 'Multi-select MCQ',
+  TrueFalse: 'True / False',
+  Numeric: 'Numeric',
+  AssertionReason: 'Assertion–Reason',
+  Subjective: 'Subjective',
+  Mixed: 'Mixed',
+};
+
+// Types that can appear inside a Mixed quiz, in setup-form order
+export const ITEM_TYPES: ItemType[] = ['MCQ', 'MultiSelect', 'TrueFalse', 'Numeric', 'AssertionReason', 'Subjective'];
+
+export function mixTotal(mix: QuestionMix): number {
+  return ITEM_TYPES.reduce((sum, type) => sum + (mix[type] || 0), 0);
+}
+
+export const ASSERTION_REASON_OPTIONS = [
+  'A. Both A and R are true, and R is the correct explanation of A',
+  'B. Both A and R are true, but R is not the correct explanation of A',
+  'C. A is true, but R is false',
+  'D. A is false, but R is true',
+];
+
+export function getQuizItems(data: ApiResponseData): QuizItem[] {
+  switch (data.questionType) {
+    case 'MCQ':
+      return data.QuestionArray.map((question, i) => ({ type: 'MCQ', question, answer: data.AnswerArray[i] }));
+    case 'Subjective':
+      return data.QuestionArray.map((question) => ({ type: 'Subjective', question }));
+    case 'MultiSelect':
+      return data.QuestionArray.map((question, i) => ({ type: 'MultiSelect', question, answer: data.AnswerArray[i] ?? [] }));
+    case 'TrueFalse':
+      return data.QuestionArray.map((question, i) => ({ type: 'TrueFalse', question, answer: data.AnswerArray[i] }));
+    case 'Numeric':
+      return data.QuestionArray.map((question, i) => ({
+        type: 'Numeric',
+        question,
+        answer: data.AnswerArray[i],
+        tolerance: data.ToleranceArray?.[i] ?? 0,
+      }));
+    case 'AssertionReason':
+      return data.QuestionArray.map((question, i) => ({ type: 'AssertionReason', question, answer: data.AnswerArray[i] }));
+    case 'Mixed':
+      return data.QuestionArray.map(mixedToItem);
+  }
+}
+
+function mixedToItem(q: MixedQuestion): QuizItem {
+  switch (q.type) {
+    case 'Subjective':
+      return { type: 'Subjective', question: q.Question };
+    case 'Numeric':
+      return { type: 'Numeric', question: q.Question, answer: q.Answer, tolerance: q.Tolerance ?? 0 };
+    default:
+      return { type: q.type, question: q.Question, answer: q.Answer } as QuizItem;
+  }
+}
+
+// Inverse of `mixedToItem`: packs per-question items back into a Mixed quiz
+export function itemsToMixedQuiz(items: QuizItem[]): ApiResponseData {
+  return {
+    questionType: 'Mixed',
+    QuestionArray: items.map((item): MixedQuestion => {
+      switch (item.type) {
+        case 'Subjective':
+          return { type: 'Subjective', Question: item.question };
+        case 'Numeric':
+          return { type: 'Numeric', Question: item.question, Answer: item.answer, Tolerance: item.tolerance };
+        default:
+          return { type: item.type, Question: item.question, Answer: item.answer } as MixedQuestion;
+      }
+    }),
+  };
+}
+
+// Packs items into a quiz: a plain MCQ quiz when they all are, a Mixed one otherwise
+export function itemsToQuiz(items: QuizItem[]): ApiResponseData {
+  const mcqs = items.flatMap((item) => (item.type === 'MCQ' ? [item] : []));
+  if (items.length > 0 && mcqs.length === items.length) {
+    return { questionType: 'MCQ', QuestionArray: mcqs.map((item) => item.question), AnswerArray: mcqs.map((item) => item.answer) };
+  }
+  return itemsToMixedQuiz(items);
+}
+
+// Question text used for display, search and export, whatever the type
+export function getItemText(item: QuizItem): string {
+  switch (item.type) {
+    case 'Subjective':
+    case 'TrueFalse':
+      return item.question;
+    case 'AssertionReason':
+      return `Assertion (A): ${item.question.Assertion}\nReason (R): ${item.question.Reason}`;
+    default:
+      return item.question.Q;
+  }
+}
+
+// Answer options shown for the item, if it has lettered options
+export function getItemOptions(item: QuizItem): string[] {
+  switch (item.type) {
+    case 'MCQ':
+    case 'MultiSelect':
+      return item.question.Options;
+    case 'AssertionReason':
+      return ASSERTION_REASON_OPTIONS;
+    case 'TrueFalse':
+      return ['True', 'False'];
+    default:
+      return [];
+  }
+}
+
+// The correct answer as text, e.g. "B. New Delhi" or "42 m/s". Null for subjective items.
+export function describeCorrectAnswer(item: QuizItem): string | null {
+  switch (item.type) {
+    case 'Subjective':
+      return null;
+    case 'MCQ':
+    case 'AssertionReason':
+      return getItemOptions(item).find((opt) => opt.startsWith(item.answer)) || item.answer;
+    case 'MultiSelect':
+      return item.question.Options.filter((opt) => item.answer.includes(optionLetter(opt))).join('; ');
+    case 'TrueFalse':
+      return item.answer ? 'True' : 'False';
+    case 'Numeric':
+      return `${item.answer}${item.question.Unit ? ` ${item.question.Unit}` : ''}`;
+  }
+}
+
+/**
+ * Checks a single answer. Returns null for questions that can't be graded
+ * automatically (subjective answers).
+ */
+export function scoreItem(item: QuizItem, userAnswer: string | undefined): boolean | null {
+  if (item.type === 'Subjective') return null;
+  if (!userAnswer || !userAnswer.trim()) return false;
+
+  switch (item.type) {
+    case 'MCQ':
+    case 'AssertionReason':
+      // userAnswer holds the selected option text, e.g. "B. Option 2"
+      return userAnswer.startsWith(item.answer);
+    case 'MultiSelect': {
+      const chosen = decodeMultiSelect(userAnswer);
+      return chosen.length === item.answer.length && item.answer.every((letter) => chosen.includes(letter));
+    }
+    case 'TrueFalse':
+      return (userAnswer === 'True') === item.answer;
+    case 'Numeric': {
+      const value = parseNumericAnswer(userAnswer);
+      if (value === null) return false;
+      // Small epsilon so exact answers survive floating-point input like 0.1 + 0.2
+      return Math.abs(value - item.answer) <= item.tolerance + 1e-9;
+    }
+  }
+}
+
+export function isAttempted(userAnswer: string | undefined): boolean {
+  return !!userAnswer && userAnswer.trim().length > 0;
+}
+
+// "B. New Delhi" -> "B"; falls back to the whole option for unlettered options
+export function optionLetter(option: string): string {
+  return option.match(/^\s*([A-Za-z])[.)]/)?.[1].toUpperCase() ?? option;
+}
+
+export function encodeMultiSelect(letters: string[]): string {
+  return [...new Set(letters)].sort().join(',');
+}
+
+export function decodeMultiSelect(value: string | undefined): string[] {
+  return value ? value.split(',').map((l) => l.trim()).filter(Boolean) : [];
+}
+
+export function parseNumericAnswer(value: string): number | null {
+  const n = Number(value.trim().replace(/,/g, ''));
+  return value.trim() && Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Lenient read of a stored `questions` payload (e.g. from a saved result).
+ * Only checks the envelope so older records still render.
+ */
+export function parseStoredQuiz(value: unknown): ApiResponseData | null {
+  if (!value || typeof value !== 'object') return null;
+  const data = value as { questionType?: unknown; QuestionArray?: unknown };
+  if (!Array.isArray(data.QuestionArray)) return null;
+  return typeof data.questionType === 'string' && data.questionType in QUESTION_TYPE_LABELS
+    ? (value as ApiResponseData)
+    : null;
+}
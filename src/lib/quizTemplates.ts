@@ -0,0 +1,61 @@
+import type { ApiResponseData } from '../types/quiz';
+
+// Question sets the user wrote or edited by hand, stored in localStorage per
+// user so they can be retaken or edited again later.
+
+const STORAGE_PREFIX = 'practise-pitch-templates:';
+
+export interface QuizTemplate {
+  id: string;
+  name: string;
+  exam: string;
+  quiz: ApiResponseData;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type TemplateDraft = Pick<QuizTemplate, 'name' | 'exam' | 'quiz'> & { id?: string };
+
+// Most recently edited first
+export function listTemplates(userId: string): QuizTemplate[] {
+  try {
+    const templates = JSON.parse(localStorage.getItem(STORAGE_PREFIX + userId) || '[]');
+    return Array.isArray(templates) ? [...templates].sort((a, b) => b.updatedAt - a.updatedAt) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeTemplates(userId: string, templates: QuizTemplate[]) {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + userId, JSON.stringify(templates));
+  } catch {
+    // Storage full or unavailable: saved templates are kept until the page reloads
+  }
+}
+
+/**
+ * Creates a template, or replaces the one with `draft.id`. Returns the saved
+ * template and the updated list.
+ */
+export function saveTemplate(userId: string, draft: TemplateDraft, now = Date.now()): { saved: QuizTemplate; templates: QuizTemplate[] } {
+  const templates = listTemplates(userId);
+  const existing = draft.id ? templates.find((t) => t.id === draft.id) : undefined;
+  const saved: QuizTemplate = {
+    id: existing?.id ?? crypto.randomUUID(),
+    name: draft.name.trim() || 'Untitled quiz',
+    exam: draft.exam,
+    quiz: draft.quiz,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  const updated = [saved, ...templates.filter((t) => t.id !== saved.id)];
+  writeTemplates(userId, updated);
+  return { saved, templates: updated };
+}
+
+export function deleteTemplate(userId: string, id: string): QuizTemplate[] {
+  const templates = listTemplates(userId).filter((t) => t.id !== id);
+  writeTemplates(userId, templates);
+  return templates;
+}
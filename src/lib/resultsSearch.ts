@@ -0,0 +1,187 @@
+import {
+  fetchResultById,
+  fetchResultsList,
+  type ResultDetail,
+  type ResultsListItem,
+  type ResultsListResponse,
+  type ResultsQuery,
+} from '../services/resultsApi';
+import type { RetryAttempt } from './fetchWithRetry';
+
+// Loading saved results, and the ResultsQuery search, filters and sort. A
+// backend that applies the query says so with `meta.filtered`; for one that
+// doesn't, the same query is applied here to the fetched results instead.
+
+const PAGE_SIZE = 50;
+const DETAIL_CONCURRENCY = 4;
+export const LOCAL_SEARCH_LIMIT = 500; // newest results scanned when filtering in the browser
+
+// Details fetched once are reused for the session: saved results only
+// change when explanations are added, which forgetResultDetail accounts for.
+// Exports ask for `fresh` details so they include explanations added elsewhere.
+const detailCache = new Map<string, ResultDetail>();
+
+// Drops a result whose stored details changed, so the next load fetches it
+export function forgetResultDetail(id: string) {
+  detailCache.delete(id);
+}
+
+export function isEmptyQuery(query: ResultsQuery | undefined): boolean {
+  return !query || Object.entries(query).every(([key, value]) => value === undefined || value === ''
+    // The default order filters nothing
+    || (key === 'sort' && value === 'date') || (key === 'order' && value === 'desc'));
+}
+
+export function matchesResultsQuery(detail: ResultDetail, query: ResultsQuery): boolean {
+  const search = query.search?.trim().toLowerCase();
+  const created = new Date(detail.created_at).getTime();
+  const score = detail.solutions?.score ?? 0;
+  // "exam : topic"; older results have no settings
+  const exam = detail.solutions?.settings?.exam ?? detail.topic.split(' : ')[0];
+  const questionType = detail.solutions?.settings?.questionType ?? (detail.questions as { questionType?: string } | null)?.questionType;
+  return (!search || detail.topic.toLowerCase().includes(search))
+    && (!query.exam || exam.toLowerCase() === query.exam.toLowerCase())
+    && (!query.questionType || questionType === query.questionType)
+    && (query.minScore === undefined || score >= query.minScore)
+    && (query.maxScore === undefined || score <= query.maxScore)
+    && (!query.from || created >= new Date(`${query.from}T00:00:00`).getTime())
+    && (!query.to || created <= new Date(`${query.to}T23:59:59.999`).getTime());
+}
+
+export function sortResultDetails(details: ResultDetail[], query: ResultsQuery): ResultDetail[] {
+  const direction = query.order === 'asc' ? 1 : -1;
+  const value = (r: ResultDetail) =>
+    query.sort === 'score' ? r.solutions?.score ?? 0 : query.sort === 'time' ? r.time_ms : new Date(r.created_at).getTime();
+  return [...details].sort((a, b) => (value(a) - value(b)) * direction);
+}
+
+export function toResultsListItem({ id, topic, created_at, time_ms, solutions }: ResultDetail): ResultsListItem {
+  return { id, topic, created_at, time_ms, score: solutions?.score };
+}
+
+// The query as sent in the list URL, e.g. for a backend reading it back
+export function parseResultsQuery(params: URLSearchParams): ResultsQuery {
+  const number = (key: string) => (params.has(key) && params.get(key) !== '' ? Number(params.get(key)) : undefined);
+  const sort = params.get('sort');
+  return {
+    search: params.get('search') ?? undefined,
+    exam: params.get('exam') ?? undefined,
+    questionType: params.get('questionType') ?? undefined,
+    minScore: number('minScore'),
+    maxScore: number('maxScore'),
+    from: params.get('from') ?? undefined,
+    to: params.get('to') ?? undefined,
+    sort: sort === 'score' || sort === 'time' ? sort : 'date',
+    order: params.get('order') === 'asc' ? 'asc' : 'desc',
+  };
+}
+
+/**
+ * One page of the results list for `query`, with each item's score and time.
+ */
+export async function searchResultsPage(params: {
+  resultsUrl: string;
+  accessToken: string;
+  page: number;
+  limit: number;
+  query?: ResultsQuery;
+  onRetry?: (info: RetryAttempt) => void;
+  signal?: AbortSignal;
+}): Promise<ResultsListResponse> {
+  const { resultsUrl, accessToken, page, limit, query, onRetry, signal } = params;
+  const response = await fetchResultsList({ resultsUrl, accessToken, page, limit, query, onRetry, signal });
+  if (!query || isEmptyQuery(query) || response.meta.filtered) return response;
+
+  // The backend ignored the query, so `response` is a page of all results
+  const { details, truncated } = await loadNewestResults({ resultsUrl, accessToken, max: LOCAL_SEARCH_LIMIT, listed: response, signal });
+  const matching = sortResultDetails(details.filter((detail) => matchesResultsQuery(detail, query)), query);
+  return {
+    data: matching.slice(page * limit, page * limit + limit).map(toResultsListItem),
+    meta: { page, limit, total: matching.length, hasMore: (page + 1) * limit < matching.length, filtered: true, truncated },
+  };
+}
+
+/**
+ * Fetches the first `max` results matching `query` (default: newest first)
+ * in full, a few at a time.
+ */
+export async function loadResultHistory(params: {
+  resultsUrl: string;
+  accessToken: string;
+  max?: number;
+  query?: ResultsQuery;
+  fresh?: boolean; // refetch cached details too
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}): Promise<ResultDetail[]> {
+  const { resultsUrl, accessToken, max = 200, query, fresh, onProgress, signal } = params;
+  const { ids, filtered } = await listResultIds({ resultsUrl, accessToken, max, query, signal });
+  if (!filtered && query) {
+    // Scan the newest results unfiltered and apply the query here
+    const { details } = await loadNewestResults({ resultsUrl, accessToken, max: Math.max(max, LOCAL_SEARCH_LIMIT), fresh, onProgress, signal });
+    return sortResultDetails(details.filter((detail) => matchesResultsQuery(detail, query)), query).slice(0, max);
+  }
+  return loadDetails({ resultsUrl, accessToken, ids, fresh, onProgress, signal });
+}
+
+// Ids of the first `max` results for `query` and whether more follow.
+// `filtered` is false, with no ids, when the backend ignored the query.
+async function listResultIds(params: {
+  resultsUrl: string;
+  accessToken: string;
+  max: number;
+  query?: ResultsQuery;
+  signal?: AbortSignal;
+}): Promise<{ ids: string[]; more: boolean; filtered: boolean }> {
+  const { resultsUrl, accessToken, max, query, signal } = params;
+  const ids: string[] = [];
+  for (let page = 0; ; page++) {
+    const { data, meta } = await fetchResultsList({ resultsUrl, accessToken, page, limit: PAGE_SIZE, query, signal });
+    if (!isEmptyQuery(query) && !meta.filtered) return { ids: [], more: false, filtered: false };
+    ids.push(...data.map((r) => r.id));
+    if (!meta.hasMore || ids.length >= max) return { ids: ids.slice(0, max), more: meta.hasMore || ids.length > max, filtered: true };
+  }
+}
+
+/**
+ * The newest `max` results, unfiltered, and whether older ones were left out.
+ * `listed` is an unfiltered list page already fetched; when it's the first
+ * page and holds all `max` results, the list isn't requested again.
+ */
+async function loadNewestResults(params: {
+  resultsUrl: string;
+  accessToken: string;
+  max: number;
+  listed?: ResultsListResponse;
+  fresh?: boolean;
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}): Promise<{ details: ResultDetail[]; truncated: boolean }> {
+  const { resultsUrl, accessToken, max, listed, fresh, onProgress, signal } = params;
+  const { ids, more } = listed && listed.meta.page === 0 && (!listed.meta.hasMore || listed.data.length >= max)
+    ? { ids: listed.data.slice(0, max).map((r) => r.id), more: listed.meta.hasMore || listed.data.length > max }
+    : await listResultIds({ resultsUrl, accessToken, max, signal });
+  const details = await loadDetails({ resultsUrl, accessToken, ids, fresh, onProgress, signal });
+  return { details, truncated: more };
+}
+
+async function loadDetails(params: {
+  resultsUrl: string;
+  accessToken: string;
+  ids: string[];
+  fresh?: boolean;
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}): Promise<ResultDetail[]> {
+  const { resultsUrl, accessToken, ids, fresh, onProgress, signal } = params;
+  let loaded = 0;
+  const queue = [...ids];
+  const worker = async () => {
+    for (let id = queue.shift(); id; id = queue.shift()) {
+      if (fresh || !detailCache.has(id)) detailCache.set(id, await fetchResultById({ resultsUrl, accessToken, id, signal }));
+      onProgress?.(++loaded, ids.length);
+    }
+  };
+  await Promise.all(Array.from({ length: DETAIL_CONCURRENCY }, worker));
+  return ids.flatMap((id) => detailCache.get(id) ?? []);
+}
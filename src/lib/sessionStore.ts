@@ -0,0 +1,60 @@
+import type { ApiResponseData, UserAnswers } from '../types/quiz';
+import type { QuizRequestConfig } from '../services/quizApi';
+import type { MarkingSchemeId } from './markingSchemes';
+import type { FocusLog } from './focusTracking';
+import type { ConfidenceMap } from './calibration';
+import type { RetryLink } from './attempts';
+import { parseStoredQuiz } from './quizItems';
+
+// Snapshot of the quiz being played, kept in localStorage so a refresh or a
+// killed tab can pick up where it left off. One slot per signed-in user.
+
+const STORAGE_PREFIX = 'practise-pitch-session:';
+const VERSION = 1;
+
+export interface StoredQuizSession {
+  version: typeof VERSION;
+  savedAt: number;
+  config: Required<QuizRequestConfig>;
+  effectiveTopic: string;
+  markingSchemeId: MarkingSchemeId | 'auto';
+  questions: ApiResponseData;
+  userAnswers: UserAnswers;
+  currentQuestionIndex: number;
+  // Quiz clock at the time of saving. On resume the clock restarts from here,
+  // so time spent away from the page isn't counted.
+  elapsedMs: number;
+  perQuestionDurationsMs: Record<number, number>; // includes the current question's time
+  timeLimitMs: number | null;
+  visited: number[];
+  marked: number[];
+  focusLog?: FocusLog;
+  confidence?: ConfidenceMap;
+  revisionIds?: string[]; // bank item per question, for revision quizzes
+  retryOf?: RetryLink;
+}
+
+export function saveQuizSession(userId: string, session: Omit<StoredQuizSession, 'version' | 'savedAt'>) {
+  try {
+    const stored: StoredQuizSession = { ...session, version: VERSION, savedAt: Date.now() };
+    localStorage.setItem(STORAGE_PREFIX + userId, JSON.stringify(stored));
+  } catch {
+    // Storage full or unavailable (private mode): resuming just won't be offered
+  }
+}
+
+export function loadQuizSession(userId: string): StoredQuizSession | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + userId);
+    if (!raw) return null;
+    const stored = JSON.parse(raw) as StoredQuizSession;
+    if (stored?.version !== VERSION || !parseStoredQuiz(stored.questions)) return null;
+    return stored;
+  } catch {
+    return null;
+  }
+}
+
+export function clearQuizSession(userId: string) {
+  localStorage.removeItem(STORAGE_PREFIX + userId);
+}
@@ -4,6 +4,9 @@ import { createRoot } from 'react-dom/client'
 import './index.css'
 import './App.css'
 import App from './App.tsx'
+import { installMockBackend, isMockBackendEnabled } from './mock/mockBackend'
+
+if (isMockBackendEnabled()) installMockBackend()
 
 createRoot(document.getElementById('root')!).render(
 <StrictMode>
@@ -0,0 +1,65 @@
+import type { RubricCriterion, RubricScore, SubjectiveAnswerInput, SubjectiveEvaluation } from '../services/evaluationApi';
+
+// Heuristic stand-in for the AI evaluator, used by the mock backend. It looks
+// at length, paragraphing, examples and a closing paragraph, which is enough
+// to exercise the evaluation UI with believable numbers.
+
+// Share of the question's marks per rubric criterion
+const WEIGHTS: Record<RubricCriterion, number> = { structure: 0.2, content: 0.4, examples: 0.2, conclusion: 0.2 };
+
+const EXAMPLE_MARKERS = /\b(for example|for instance|e\.g\.|such as|case in point|like the)\b|\b(1[89]|20)\d{2}\b|\d+(\.\d+)?\s?%/gi;
+const CONCLUSION_MARKERS = /\b(in conclusion|to conclude|thus|therefore|hence|way forward|to sum up|overall)\b/i;
+
+export function evaluateLocally(input: SubjectiveAnswerInput): SubjectiveEvaluation {
+  const text = input.answer.trim();
+  const words = text ? text.split(/\s+/).length : 0;
+  const paragraphs = text.split(/\n\s*\n|\n/).map((p) => p.trim()).filter(Boolean);
+  const exampleCount = (text.match(EXAMPLE_MARKERS) || []).length;
+  const lastParagraph = paragraphs[paragraphs.length - 1] || '';
+
+  // Each ratio is how much of the criterion's share the answer earns (0–1)
+  const ratios: Record<RubricCriterion, number> = {
+    structure: paragraphs.length >= 3 ? 1 : paragraphs.length === 2 ? 0.6 : words > 0 ? 0.25 : 0,
+    content: Math.min(1, words / 150),
+    examples: Math.min(1, exampleCount / 2),
+    conclusion: paragraphs.length >= 2 && CONCLUSION_MARKERS.test(lastParagraph) ? 1 : paragraphs.length >= 2 ? 0.4 : 0,
+  };
+
+  const comments: Record<RubricCriterion, [string, string]> = {
+    structure: ['Clear introduction, body and conclusion.', 'Break the answer into an introduction, a body and a conclusion.'],
+    content: ['Covers the demand of the question in good depth.', `Only ${words} words; develop more dimensions of the question.`],
+    examples: ['Backed by relevant examples and data.', 'Support arguments with examples, schemes, cases or data.'],
+    conclusion: ['Ends with a balanced, forward-looking conclusion.', 'Close with a conclusion or way forward.'],
+  };
+
+  const rubric = {} as Record<RubricCriterion, RubricScore>;
+  let marks = 0;
+  for (const criterion of Object.keys(WEIGHTS) as RubricCriterion[]) {
+    const max = roundHalf(input.maxMarks * WEIGHTS[criterion]);
+    const score = roundHalf(max * ratios[criterion]);
+    marks += score;
+    rubric[criterion] = { score, max, comment: ratios[criterion] >= 0.75 ? comments[criterion][0] : comments[criterion][1] };
+  }
+
+  const tips = (Object.keys(rubric) as RubricCriterion[])
+    .filter((c) => ratios[c] < 0.75)
+    .map((c) => comments[c][1]);
+  if (tips.length === 0) tips.push('Strong answer. Practise writing it within the word limit under time pressure.');
+
+  return {
+    index: input.index,
+    marks: Math.min(input.maxMarks, roundHalf(marks)),
+    maxMarks: input.maxMarks,
+    rubric,
+    modelAnswer: [
+      `Introduction: Define the key terms in "${input.question}" and state the context in one or two lines.`,
+      'Body: Discuss the main dimensions (political, economic, social, environmental) in separate points, each backed by an example, a government scheme or data.',
+      'Conclusion: Summarise the argument and suggest a balanced way forward.',
+    ].join('\n\n'),
+    tips,
+  };
+}
+
+function roundHalf(n: number) {
+  return Math.round(n * 2) / 2;
+}
@@ -0,0 +1,28 @@
+import type { Explanation, ExplanationRequest } from '../services/explanationApi';
+
+// Template stand-in for the AI explainer, used by the mock backend. It can't
+// reason about the subject, but it fills every part of an explanation so the
+// review UI can be exercised end to end.
+
+export function explainLocally(req: ExplanationRequest): Explanation {
+  const correct = req.correctAnswer.trim();
+  const chosen = req.userAnswer?.trim() || null;
+  const subject = shorten(req.question);
+
+  return {
+    whyCorrect: `"${correct}" is the answer because it is the only choice consistent with what the question asks: ${subject}`
+      + ' Check each part of the statement against it and every condition holds.',
+    whyChosenWrong: chosen && !req.isCorrect
+      ? `"${chosen}" looks plausible, but at least one part of it conflicts with the question. `
+        + 'It is a common distractor: it shares keywords with the right answer without meeting every condition.'
+      : null,
+    takeaway: req.options.length > 2
+      ? 'Eliminate options that fail any single condition before choosing between the rest.'
+      : 'Read every qualifier in the statement; one word is often enough to make it false.',
+  };
+}
+
+function shorten(text: string, max = 140): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > max ? `${clean.slice(0, max - 1)}…` : clean;
+}
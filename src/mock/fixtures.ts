@@ -0,0 +1,105 @@
+import type {
+  ApiAssertionReasonResponse,
+  ApiMcqResponse,
+  ApiMultiSelectResponse,
+  ApiNumericResponse,
+  ApiSubjectiveResponse,
+  ApiTrueFalseResponse,
+} from '../types/quiz';
+
+// Deterministic question sets served by the mock backend. Sets are cycled
+// when a quiz asks for more questions than a fixture holds.
+
+export const MCQ_ENGLISH: ApiMcqResponse = {
+  questionType: 'MCQ',
+  QuestionArray: [
+    { No: 1, Q: 'Which Article of the Indian Constitution abolishes untouchability?', Options: ['A. Article 14', 'B. Article 17', 'C. Article 21', 'D. Article 32'] },
+    { No: 2, Q: 'The Tropic of Cancer does NOT pass through which of these states?', Options: ['A. Gujarat', 'B. Odisha', 'C. Tripura', 'D. Mizoram'] },
+    { No: 3, Q: 'Consider the following statements about the Rajya Sabha: 1. It is a permanent body. 2. One-third of its members retire every second year. Which of the statements given above is/are correct?', Options: ['A. 1 only', 'B. 2 only', 'C. Both 1 and 2', 'D. Neither 1 nor 2'] },
+    { No: 4, Q: 'Who was the first Governor-General of independent India?', Options: ['A. C. Rajagopalachari', 'B. Lord Mountbatten', 'C. Rajendra Prasad', 'D. Lord Wavell'] },
+    { No: 5, Q: 'Which gas is most abundant in the Earth\'s atmosphere?', Options: ['A. Oxygen', 'B. Argon', 'C. Nitrogen', 'D. Carbon dioxide'] },
+    { No: 6, Q: 'The Repo Rate is set by which institution?', Options: ['A. Ministry of Finance', 'B. SEBI', 'C. NITI Aayog', 'D. Reserve Bank of India'] },
+    { No: 7, Q: 'Which river is known as the "Dakshin Ganga"?', Options: ['A. Godavari', 'B. Krishna', 'C. Kaveri', 'D. Narmada'] },
+    { No: 8, Q: 'The Chipko movement was primarily associated with:', Options: ['A. Forest conservation', 'B. Dam construction', 'C. Land reforms', 'D. Tribal education'] },
+    { No: 9, Q: 'Which of the following is a Kharif crop?', Options: ['A. Wheat', 'B. Mustard', 'C. Rice', 'D. Gram'] },
+    { No: 10, Q: 'The Preamble of the Indian Constitution was amended by which Amendment Act?', Options: ['A. 24th', 'B. 42nd', 'C. 44th', 'D. 52nd'] },
+  ],
+  AnswerArray: ['B', 'B', 'C', 'B', 'C', 'D', 'A', 'A', 'C', 'B'],
+};
+
+export const MCQ_HINDI: ApiMcqResponse = {
+  questionType: 'MCQ',
+  QuestionArray: [
+    { No: 1, Q: 'भारतीय संविधान का कौन-सा अनुच्छेद अस्पृश्यता का उन्मूलन करता है?', Options: ['A. अनुच्छेद 14', 'B. अनुच्छेद 17', 'C. अनुच्छेद 21', 'D. अनुच्छेद 32'] },
+    { No: 2, Q: 'पृथ्वी के वायुमंडल में सबसे अधिक मात्रा में कौन-सी गैस पाई जाती है?', Options: ['A. ऑक्सीजन', 'B. आर्गन', 'C. नाइट्रोजन', 'D. कार्बन डाइऑक्साइड'] },
+    { No: 3, Q: 'रेपो दर कौन-सी संस्था निर्धारित करती है?', Options: ['A. वित्त मंत्रालय', 'B. सेबी', 'C. नीति आयोग', 'D. भारतीय रिज़र्व बैंक'] },
+    { No: 4, Q: 'किस नदी को "दक्षिण गंगा" कहा जाता है?', Options: ['A. गोदावरी', 'B. कृष्णा', 'C. कावेरी', 'D. नर्मदा'] },
+    { No: 5, Q: 'चिपको आंदोलन मुख्य रूप से किससे संबंधित था?', Options: ['A. वन संरक्षण', 'B. बाँध निर्माण', 'C. भूमि सुधार', 'D. जनजातीय शिक्षा'] },
+    { No: 6, Q: 'निम्नलिखित में से कौन-सी खरीफ फसल है?', Options: ['A. गेहूँ', 'B. सरसों', 'C. धान', 'D. चना'] },
+  ],
+  AnswerArray: ['B', 'C', 'D', 'A', 'A', 'C'],
+};
+
+export const SUBJECTIVE_ENGLISH: ApiSubjectiveResponse = {
+  questionType: 'Subjective',
+  QuestionArray: [
+    'Discuss the role of the Finance Commission in strengthening fiscal federalism in India.',
+    'Examine the impact of climate change on Indian agriculture and suggest adaptation measures.',
+    '"Judicial activism is a double-edged sword." Critically analyse.',
+    'Evaluate the significance of the Non-Aligned Movement in the present geopolitical context.',
+    'What are the challenges in implementing the National Education Policy 2020? Suggest a way forward.',
+  ],
+};
+
+export const SUBJECTIVE_HINDI: ApiSubjectiveResponse = {
+  questionType: 'Subjective',
+  QuestionArray: [
+    'भारत में राजकोषीय संघवाद को सुदृढ़ करने में वित्त आयोग की भूमिका की विवेचना कीजिए।',
+    'भारतीय कृषि पर जलवायु परिवर्तन के प्रभाव का परीक्षण कीजिए तथा अनुकूलन के उपाय सुझाइए।',
+    '"न्यायिक सक्रियता एक दोधारी तलवार है।" समालोचनात्मक विश्लेषण कीजिए।',
+    'राष्ट्रीय शिक्षा नीति 2020 के क्रियान्वयन की चुनौतियाँ क्या हैं? आगे की राह सुझाइए।',
+  ],
+};
+
+export const MULTI_SELECT_ENGLISH: ApiMultiSelectResponse = {
+  questionType: 'MultiSelect',
+  QuestionArray: [
+    { No: 1, Q: 'Which of the following are Fundamental Duties under Article 51A?', Options: ['A. To abide by the Constitution', 'B. To pay taxes on time', 'C. To protect the natural environment', 'D. To vote in every election'] },
+    { No: 2, Q: 'Which of these are greenhouse gases?', Options: ['A. Methane', 'B. Nitrogen', 'C. Nitrous oxide', 'D. Water vapour'] },
+    { No: 3, Q: 'Which of the following rivers flow westward into the Arabian Sea?', Options: ['A. Narmada', 'B. Godavari', 'C. Tapi', 'D. Mahanadi'] },
+  ],
+  AnswerArray: [['A', 'C'], ['A', 'C', 'D'], ['A', 'C']],
+};
+
+export const TRUE_FALSE_ENGLISH: ApiTrueFalseResponse = {
+  questionType: 'TrueFalse',
+  QuestionArray: [
+    'The President of India is elected by an electoral college.',
+    'The Rajya Sabha can be dissolved by the President.',
+    'Mount Abu is located in the Aravalli Range.',
+    'Light travels faster in water than in vacuum.',
+  ],
+  AnswerArray: [true, false, true, false],
+};
+
+export const NUMERIC_ENGLISH: ApiNumericResponse = {
+  questionType: 'Numeric',
+  QuestionArray: [
+    { No: 1, Q: 'A ball is dropped from rest. What is its speed after 2 seconds? (take g = 9.8 m/s²)', Unit: 'm/s' },
+    { No: 2, Q: 'If 3x + 7 = 25, what is the value of x?' },
+    { No: 3, Q: 'A resistor of 4 Ω carries a current of 2.5 A. What is the voltage across it?', Unit: 'V' },
+    { No: 4, Q: 'What is 15% of 240?' },
+  ],
+  AnswerArray: [19.6, 6, 10, 36],
+  ToleranceArray: [0.1, 0, 0.05, 0],
+};
+
+export const ASSERTION_REASON_ENGLISH: ApiAssertionReasonResponse = {
+  questionType: 'AssertionReason',
+  QuestionArray: [
+    { No: 1, Assertion: 'The Western Ghats receive heavy rainfall during the south-west monsoon.', Reason: 'The Western Ghats act as a barrier to moisture-laden winds from the Arabian Sea.' },
+    { No: 2, Assertion: 'The Lok Sabha is dissolved every five years.', Reason: 'Members of the Lok Sabha are nominated by the President.' },
+    { No: 3, Assertion: 'Iron rusts faster in humid conditions.', Reason: 'Rusting requires both oxygen and water.' },
+  ],
+  AnswerArray: ['A', 'C', 'A'],
+};
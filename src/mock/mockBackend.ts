@@ -0,0 +1,277 @@
+import type { ApiResponseData, ItemType, QuestionMix } from '../types/quiz';
+import { ITEM_TYPES, getQuizItems, itemsToMixedQuiz } from '../lib/quizItems';
+import type { ResultDetail, SaveResultsPayload } from '../services/resultsApi';
+import { matchesResultsQuery, parseResultsQuery, sortResultDetails, toResultsListItem } from '../lib/resultsSearch';
+import type { SubjectiveAnswerInput } from '../services/evaluationApi';
+import type { ExplanationRequest } from '../services/explanationApi';
+import { evaluateLocally } from './evaluationStub';
+import { explainLocally } from './explanationStub';
+import {
+  ASSERTION_REASON_ENGLISH,
+  MCQ_ENGLISH,
+  MCQ_HINDI,
+  MULTI_SELECT_ENGLISH,
+  NUMERIC_ENGLISH,
+  SUBJECTIVE_ENGLISH,
+  SUBJECTIVE_HINDI,
+  TRUE_FALSE_ENGLISH,
+} from './fixtures';
+
+// In-browser stand-in for the practise-pitch backend. When enabled it wraps
+// `window.fetch` and answers `/generate-questions`, `/evaluate-answers`,
+// `/explain` and `/api/results` locally, so the whole create → take → save → browse flow works
+// without a network.
+//
+// Enable with VITE_MOCK_BACKEND=true, or per browser by visiting `?mock=1`
+// (`?mock=0` switches it back off).
+
+const MOCK_FLAG_KEY = 'practise-pitch-mock';
+const RESULTS_STORAGE_KEY = 'practise-pitch-mock-results';
+const IDEMPOTENCY_STORAGE_KEY = 'practise-pitch-mock-idempotency'; // Idempotency-Key -> result id
+const LATENCY_MS = 300;
+
+let installed = false;
+
+type RouteHandler = (req: Request, match: RegExpMatchArray) => Promise<Response>;
+
+interface Route {
+  method: string;
+  pattern: RegExp; // matched against the URL pathname
+  handler: RouteHandler;
+}
+
+const routes: Route[] = [
+  { method: 'POST', pattern: /\/generate-questions$/, handler: handleGenerateQuestions },
+  { method: 'POST', pattern: /\/evaluate-answers$/, handler: handleEvaluateAnswers },
+  { method: 'POST', pattern: /\/explain$/, handler: handleExplain },
+  { method: 'GET', pattern: /^\/api\/results\/?$/, handler: handleListResults },
+  { method: 'POST', pattern: /^\/api\/results\/?$/, handler: handleSaveResult },
+  { method: 'GET', pattern: /^\/api\/results\/([^/]+)$/, handler: handleGetResult },
+  { method: 'PATCH', pattern: /^\/api\/results\/([^/]+)$/, handler: handlePatchResult },
+];
+
+export function isMockBackendEnabled(): boolean {
+  const param = new URLSearchParams(window.location.search).get('mock');
+  if (param === '1') localStorage.setItem(MOCK_FLAG_KEY, '1');
+  if (param === '0') localStorage.removeItem(MOCK_FLAG_KEY);
+  return import.meta.env.VITE_MOCK_BACKEND === 'true' || localStorage.getItem(MOCK_FLAG_KEY) === '1';
+}
+
+// True once `installMockBackend` has run for this page load
+export function isMockBackendActive(): boolean {
+  return installed;
+}
+
+export function installMockBackend() {
+  if (installed) return;
+  installed = true;
+  const realFetch = window.fetch.bind(window);
+
+  window.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = input instanceof Request ? input.url : String(input);
+    const req = new Request(new URL(url, window.location.origin), input instanceof Request ? input : init);
+    const { pathname } = new URL(req.url);
+    for (const route of routes) {
+      const match = pathname.match(route.pattern);
+      if (match && route.method === req.method) {
+        await delay(LATENCY_MS, req.signal);
+        return route.handler(req, match);
+      }
+    }
+    return realFetch(input, init);
+  };
+}
+
+// --- /generate-questions ---
+
+async function handleGenerateQuestions(req: Request): Promise<Response> {
+  const body = await req.json().catch(() => ({}));
+  const data = body.questionType === 'Mixed'
+    ? buildMixedFixtureQuiz(body.mix || {}, body.language)
+    : buildFixtureQuiz(body.questionType, body.language, Number(body.q_no) || 5);
+
+  if (!body.stream) {
+    return json({ status: 'success', data });
+  }
+
+  // Stream as NDJSON, one question at a time, to exercise the streaming UI
+  const encoder = new TextEncoder();
+  const signal = req.signal;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: object) => controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      try {
+        send({ type: 'meta', questionType: data.questionType, total: data.QuestionArray.length });
+        for (let i = 0; i < data.QuestionArray.length; i++) {
+          await delay(LATENCY_MS, signal);
+          send({
+            type: 'question',
+            question: data.QuestionArray[i],
+            answer: 'AnswerArray' in data ? data.AnswerArray[i] : undefined,
+            tolerance: data.questionType === 'Numeric' ? data.ToleranceArray?.[i] : undefined,
+          });
+        }
+        send({ type: 'done' });
+        controller.close();
+      } catch (err) {
+        controller.error(err);
+      }
+    },
+  });
+  return new Response(stream, { status: 200, headers: { 'Content-Type': 'application/x-ndjson' } });
+}
+
+// Hindi sets exist for MCQ and Subjective; other types fall back to English
+const FIXTURES: Record<ItemType, { English: ApiResponseData; Hindi?: ApiResponseData }> = {
+  MCQ: { English: MCQ_ENGLISH, Hindi: MCQ_HINDI },
+  Subjective: { English: SUBJECTIVE_ENGLISH, Hindi: SUBJECTIVE_HINDI },
+  MultiSelect: { English: MULTI_SELECT_ENGLISH },
+  TrueFalse: { English: TRUE_FALSE_ENGLISH },
+  Numeric: { English: NUMERIC_ENGLISH },
+  AssertionReason: { English: ASSERTION_REASON_ENGLISH },
+};
+
+function buildFixtureQuiz(questionType: string, language: string, count: number): ApiResponseData {
+  const fixture = FIXTURES[questionType as ItemType] ?? FIXTURES.MCQ;
+  const source = (language === 'Hindi' && fixture.Hindi) || fixture.English;
+  // Renumber and cycle every parallel array the same way
+  const quiz: Record<string, unknown> = { ...source };
+  for (const key of ['QuestionArray', 'AnswerArray', 'ToleranceArray'] as const) {
+    const values = (source as unknown as Record<string, unknown[] | undefined>)[key];
+    if (values) quiz[key] = cycle(values, count);
+  }
+  quiz.QuestionArray = (quiz.QuestionArray as unknown[]).map((q, i) =>
+    typeof q === 'object' && q !== null ? { ...q, No: i + 1 } : q,
+  );
+  return quiz as unknown as ApiResponseData;
+}
+
+// Mixed paper: the requested count of each type, in setup-form order
+function buildMixedFixtureQuiz(mix: QuestionMix, language: string): ApiResponseData {
+  const items = ITEM_TYPES.flatMap((type) => {
+    const count = Number(mix[type]) || 0;
+    return count > 0 ? getQuizItems(buildFixtureQuiz(type, language, count)) : [];
+  });
+  return itemsToMixedQuiz(items);
+}
+
+function cycle<T>(items: T[], count: number): T[] {
+  return Array.from({ length: count }, (_, i) => items[i % items.length]);
+}
+
+// --- /evaluate-answers ---
+
+async function handleEvaluateAnswers(req: Request): Promise<Response> {
+  const body = await req.json().catch(() => ({}));
+  const answers: SubjectiveAnswerInput[] = Array.isArray(body.answers) ? body.answers : [];
+  return json({ data: answers.map(evaluateLocally) });
+}
+
+// --- /explain ---
+
+async function handleExplain(req: Request): Promise<Response> {
+  const body = (await req.json().catch(() => ({}))) as Partial<ExplanationRequest>;
+  if (typeof body.question !== 'string' || typeof body.correctAnswer !== 'string') {
+    return json({ message: 'question and correctAnswer are required' }, 400);
+  }
+  return json({
+    data: explainLocally({
+      question: body.question,
+      options: Array.isArray(body.options) ? body.options : [],
+      correctAnswer: body.correctAnswer,
+      userAnswer: body.userAnswer ?? null,
+      isCorrect: body.isCorrect === true,
+    }),
+  });
+}
+
+// --- /api/results ---
+
+async function handleListResults(req: Request): Promise<Response> {
+  const url = new URL(req.url);
+  const page = Math.max(0, Number(url.searchParams.get('page')) || 0);
+  const limit = Math.max(1, Number(url.searchParams.get('limit')) || 5);
+  const query = parseResultsQuery(url.searchParams);
+  const all = sortResultDetails(readResults().filter((r) => matchesResultsQuery(r, query)), query);
+  const data = all.slice(page * limit, page * limit + limit).map(toResultsListItem);
+  return json({ data, meta: { page, limit, total: all.length, hasMore: (page + 1) * limit < all.length, filtered: true } });
+}
+
+async function handleSaveResult(req: Request): Promise<Response> {
+  const payload = (await req.json()) as SaveResultsPayload;
+  // A repeated key returns the result saved the first time
+  const key = req.headers.get('Idempotency-Key');
+  const seen: Record<string, string> = JSON.parse(localStorage.getItem(IDEMPOTENCY_STORAGE_KEY) || '{}');
+  const existing = key && seen[key] ? readResults().find((r) => r.id === seen[key]) : undefined;
+  if (existing) return json({ data: existing });
+
+  const record: ResultDetail = {
+    id: crypto.randomUUID(),
+    topic: payload.topic,
+    time_ms: payload.timeMs,
+    questions: payload.questions,
+    solutions: payload.solutions,
+    created_at: new Date().toISOString(),
+  };
+  writeResults([record, ...readResults()]);
+  if (key) localStorage.setItem(IDEMPOTENCY_STORAGE_KEY, JSON.stringify({ ...seen, [key]: record.id }));
+  return json({ data: record }, 201);
+}
+
+async function handleGetResult(_req: Request, match: RegExpMatchArray): Promise<Response> {
+  const id = decodeURIComponent(match[1]);
+  const record = readResults().find((r) => r.id === id);
+  return record ? json({ data: record }) : json({ message: 'Result not found' }, 404);
+}
+
+// Only explanations can be added after saving; they're merged into what's stored
+async function handlePatchResult(req: Request, match: RegExpMatchArray): Promise<Response> {
+  const id = decodeURIComponent(match[1]);
+  const body = await req.json().catch(() => ({}));
+  const records = readResults();
+  const record = records.find((r) => r.id === id);
+  if (!record) return json({ message: 'Result not found' }, 404);
+  const updated: ResultDetail = {
+    ...record,
+    solutions: {
+      ...record.solutions,
+      explanations: { ...record.solutions.explanations, ...body?.solutions?.explanations },
+    },
+  };
+  writeResults(records.map((r) => (r.id === id ? updated : r)));
+  return json({ data: updated });
+}
+
+// Newest first, like the real backend
+function readResults(): ResultDetail[] {
+  try {
+    return JSON.parse(localStorage.getItem(RESULTS_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function writeResults(records: ResultDetail[]) {
+  localStorage.setItem(RESULTS_STORAGE_KEY, JSON.stringify(records));
+}
+
+// --- helpers ---
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
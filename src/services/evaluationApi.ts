@@ -0,0 +1,88 @@
+import { fetchWithRetry, isAbortError, type RetryAttempt } from '../lib/fetchWithRetry';
+import { QuizApiError } from './quizApi';
+
+export const RUBRIC_CRITERIA = ['structure', 'content', 'examples', 'conclusion'] as const;
+export type RubricCriterion = typeof RUBRIC_CRITERIA[number];
+
+export interface RubricScore {
+  score: number;
+  max: number;
+  comment: string;
+}
+
+// AI grading of one subjective answer, stored with the result
+export interface SubjectiveEvaluation {
+  index: number; // question index within the quiz
+  marks: number;
+  maxMarks: number;
+  rubric: Record<RubricCriterion, RubricScore>;
+  modelAnswer: string;
+  tips: string[];
+}
+
+export interface SubjectiveAnswerInput {
+  index: number;
+  question: string;
+  answer: string;
+  maxMarks: number;
+}
+
+export const DEFAULT_SUBJECTIVE_MAX_MARKS = 10;
+
+export function sumMarks(evaluations: SubjectiveEvaluation[]): number {
+  return evaluations.reduce((sum, ev) => sum + ev.marks, 0);
+}
+
+export async function evaluateSubjectiveAnswers(params: {
+  apiBaseUrl: string; // e.g. 'https://…/api/ai'
+  answers: SubjectiveAnswerInput[];
+  exam: string;
+  topic: string;
+  language: string;
+  accessToken?: string;
+  onRetry?: (info: RetryAttempt) => void;
+  signal?: AbortSignal;
+}): Promise<SubjectiveEvaluation[]> {
+  const { apiBaseUrl, answers, exam, topic, language, accessToken, onRetry, signal } = params;
+  if (answers.length === 0) return [];
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (accessToken) headers['Authorization'] = `Bearer ${accessToken}`;
+
+  let resp: Response;
+  try {
+    resp = await fetchWithRetry(`${apiBaseUrl.replace(/\/$/, '')}/evaluate-answers`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ exam, topic, language, answers }),
+    }, { signal, onRetry, timeoutMs: 90_000 });
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw new QuizApiError('network', err instanceof Error ? err.message : 'Network request failed');
+  }
+
+  if (!resp.ok) {
+    const text = await resp.text().catch(() => '');
+    const kind = resp.status === 401 || resp.status === 403 ? 'auth' : resp.status === 429 ? 'quota' : 'server';
+    throw new QuizApiError(kind, `${resp.status} ${resp.statusText}${text ? ` - ${text}` : ''}`, resp.status);
+  }
+
+  const json = await resp.json().catch(() => null);
+  const list = json?.data;
+  if (!Array.isArray(list) || !list.every(isEvaluation)) {
+    throw new QuizApiError('malformed', 'Malformed evaluation payload', resp.status);
+  }
+  return list;
+}
+
+function isEvaluation(value: unknown): value is SubjectiveEvaluation {
+  const ev = value as SubjectiveEvaluation | null;
+  return !!ev
+    && typeof ev.index === 'number'
+    && typeof ev.marks === 'number'
+    && typeof ev.maxMarks === 'number'
+    && typeof ev.modelAnswer === 'string'
+    && Array.isArray(ev.tips)
+    && !!ev.rubric
+    && RUBRIC_CRITERIA.every((c) => typeof ev.rubric[c]?.score === 'number' && typeof ev.rubric[c]?.max === 'number');
+}
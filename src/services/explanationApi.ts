@@ -0,0 +1,117 @@
+import { fetchWithRetry, isAbortError, type RetryAttempt } from '../lib/fetchWithRetry';
+import { QuizApiError } from './quizApi';
+import { decodeMultiSelect, describeCorrectAnswer, getItemOptions, getItemText, isAttempted, optionLetter, scoreItem, type QuizItem } from '../lib/quizItems';
+
+// Why the correct answer is right and, when the user got it wrong, why their
+// choice isn't. Stored on the saved result keyed by question index.
+export interface Explanation {
+  whyCorrect: string;
+  whyChosenWrong: string | null; // null when the answer was right or skipped
+  takeaway: string;
+}
+
+export interface ExplanationRequest {
+  question: string;
+  options: string[];
+  correctAnswer: string;
+  userAnswer: string | null; // null when skipped
+  isCorrect: boolean;
+}
+
+// Null for subjective items, which get rubric feedback instead
+export function buildExplanationRequest(item: QuizItem, userAnswer: string | undefined): ExplanationRequest | null {
+  const correctAnswer = describeCorrectAnswer(item);
+  if (correctAnswer === null) return null;
+  let chosen = userAnswer && isAttempted(userAnswer) ? userAnswer.trim() : null;
+  if (chosen && item.type === 'MultiSelect') {
+    const letters = decodeMultiSelect(chosen);
+    chosen = item.question.Options.filter((opt) => letters.includes(optionLetter(opt))).join('; ');
+  }
+  return {
+    question: getItemText(item),
+    options: getItemOptions(item),
+    correctAnswer,
+    userAnswer: chosen,
+    isCorrect: scoreItem(item, userAnswer) === true,
+  };
+}
+
+const CACHE_STORAGE_KEY = 'practise-pitch-explanations';
+const CACHE_LIMIT = 100;
+
+// Same question, options, correct answer, chosen answer and language give the
+// same explanation, so repeat requests (including from saved results) are
+// served from here. A stem reused with other options or another key is a new question.
+function cacheKey(req: ExplanationRequest, language: string) {
+  return JSON.stringify([language, req.question, req.options, req.correctAnswer, req.userAnswer ?? '']);
+}
+
+function readCache(): Record<string, Explanation> {
+  try {
+    return JSON.parse(localStorage.getItem(CACHE_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function writeCache(key: string, explanation: Explanation) {
+  const entries = Object.entries(readCache()).filter(([k]) => k !== key);
+  entries.push([key, explanation]);
+  try {
+    // Object key order is insertion order, so the oldest entries go first
+    localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(Object.fromEntries(entries.slice(-CACHE_LIMIT))));
+  } catch { /* storage full: skip caching */ }
+}
+
+export async function fetchExplanation(params: {
+  apiBaseUrl: string; // e.g. 'https://…/api/ai'
+  request: ExplanationRequest;
+  exam: string;
+  topic: string;
+  language: string;
+  accessToken?: string;
+  onRetry?: (info: RetryAttempt) => void;
+  signal?: AbortSignal;
+}): Promise<Explanation> {
+  const { apiBaseUrl, request, exam, topic, language, accessToken, onRetry, signal } = params;
+  const key = cacheKey(request, language);
+  const cached = readCache()[key];
+  if (cached) return cached;
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (accessToken) headers['Authorization'] = `Bearer ${accessToken}`;
+
+  let resp: Response;
+  try {
+    resp = await fetchWithRetry(`${apiBaseUrl.replace(/\/$/, '')}/explain`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ exam, topic, language, ...request }),
+    }, { signal, onRetry, timeoutMs: 60_000 });
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw new QuizApiError('network', err instanceof Error ? err.message : 'Network request failed');
+  }
+
+  if (!resp.ok) {
+    const text = await resp.text().catch(() => '');
+    const kind = resp.status === 401 || resp.status === 403 ? 'auth' : resp.status === 429 ? 'quota' : 'server';
+    throw new QuizApiError(kind, `${resp.status} ${resp.statusText}${text ? ` - ${text}` : ''}`, resp.status);
+  }
+
+  const json = await resp.json().catch(() => null);
+  const explanation = json?.data;
+  if (!isExplanation(explanation)) {
+    throw new QuizApiError('malformed', 'Malformed explanation payload', resp.status);
+  }
+  writeCache(key, explanation);
+  return explanation;
+}
+
+function isExplanation(value: unknown): value is Explanation {
+  const ex = value as Explanation | null;
+  return !!ex
+    && typeof ex.whyCorrect === 'string'
+    && (ex.whyChosenWrong === null || typeof ex.whyChosenWrong === 'string')
+    && typeof ex.takeaway === 'string';
+}
@@ -0,0 +1,244 @@
+import type { ApiResponseData, ItemType, McqQuestion, QuestionMix } from '../types/quiz';
+import { ITEM_TYPES } from '../lib/quizItems';
+import { applyStreamEvent, isStreamingResponse, readQuestionStream, type StreamedQuiz } from '../lib/questionStream';
+import { fetchWithRetry, isAbortError, type RetryAttempt } from '../lib/fetchWithRetry';
+
+export type QuizApiErrorKind = 'auth' | 'quota' | 'request' | 'malformed' | 'server' | 'network';
+
+/**
+ * Error raised by the quiz-generation client. `kind` tells the UI which
+ * message and recovery action to offer.
+ */
+export class QuizApiError extends Error {
+  kind: QuizApiErrorKind;
+  status?: number;
+
+  constructor(kind: QuizApiErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'QuizApiError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+export interface QuizRequestConfig {
+  exam: string;
+  q_no: number;
+  difficulty: string;
+  topic: string;
+  questionType: string;
+  language: string;
+  mix?: QuestionMix; // per-type counts when questionType is "Mixed"
+}
+
+export async function generateQuestions(params: {
+  apiBaseUrl: string; // e.g. 'https://…/api/ai'
+  config: QuizRequestConfig;
+  accessToken?: string;
+  onProgress?: (progress: StreamedQuiz) => void; // called per streamed question
+  onRetry?: (info: RetryAttempt) => void;
+  signal?: AbortSignal;
+}): Promise<ApiResponseData> {
+  const { apiBaseUrl, config, accessToken, onProgress, onRetry, signal } = params;
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    Accept: 'text/event-stream, application/x-ndjson, application/json',
+  };
+  if (accessToken) headers['Authorization'] = `Bearer ${accessToken}`;
+
+  let resp: Response;
+  try {
+    resp = await fetchWithRetry(`${apiBaseUrl.replace(/\/$/, '')}/generate-questions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ ...config, stream: true }),
+    }, { signal, onRetry, timeoutMs: 90_000 });
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw new QuizApiError('network', err instanceof Error ? err.message : 'Network request failed');
+  }
+
+  if (!resp.ok) {
+    throw await errorFromResponse(resp);
+  }
+
+  if (isStreamingResponse(resp)) {
+    return readStreamedQuiz(resp, config.q_no, onProgress);
+  }
+
+  let json: unknown;
+  try {
+    json = await resp.json();
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw new QuizApiError('malformed', 'The server response was not valid JSON', resp.status);
+  }
+
+  const body = asRecord(json);
+  if (body?.status !== 'success') {
+    const message = messageFrom(body?.data) || messageFrom(body) || 'The server could not generate this quiz';
+    throw new QuizApiError('server', message, resp.status);
+  }
+  return validateQuizData(body.data);
+}
+
+/**
+ * Checks at runtime that a payload matches one of the `ApiResponseData`
+ * shapes. Throws a `malformed` QuizApiError otherwise.
+ */
+export function validateQuizData(data: unknown, options: { allowEmpty?: boolean } = {}): ApiResponseData {
+  const obj = asRecord(data);
+  if (!obj) throw malformed('quiz data is missing');
+
+  const questionArray = obj.QuestionArray;
+  if (!Array.isArray(questionArray)) throw malformed('QuestionArray is not a list');
+  if (questionArray.length === 0 && !options.allowEmpty) throw malformed('no questions were generated');
+
+  if (obj.questionType === 'Subjective') {
+    questionArray.forEach((q, i) => validateQuestion('Subjective', q, undefined, i));
+    return { questionType: 'Subjective', QuestionArray: questionArray };
+  }
+
+  if (obj.questionType === 'Mixed') {
+    // Each entry carries its own type and answer
+    questionArray.forEach((entry, i) => {
+      const item = asRecord(entry);
+      if (!item || !ITEM_TYPES.includes(item.type as ItemType)) {
+        throw malformed(`question ${i + 1} has unknown type "${String(item?.type)}"`);
+      }
+      validateQuestion(item.type as ItemType, item.Question, item.Answer, i);
+      if (item.Tolerance !== undefined && (typeof item.Tolerance !== 'number' || item.Tolerance < 0)) {
+        throw malformed(`question ${i + 1}'s tolerance must be a non-negative number`);
+      }
+    });
+    return { questionType: 'Mixed', QuestionArray: questionArray };
+  }
+
+  if (!ITEM_TYPES.includes(obj.questionType as ItemType)) {
+    throw malformed(`unknown question type "${String(obj.questionType)}"`);
+  }
+  const questionType = obj.questionType as Exclude<ItemType, 'Subjective'>;
+
+  const answerArray = obj.AnswerArray;
+  if (!Array.isArray(answerArray)) throw malformed('AnswerArray is not a list');
+  if (answerArray.length !== questionArray.length) {
+    throw malformed(`AnswerArray has ${answerArray.length} entries for ${questionArray.length} questions`);
+  }
+  questionArray.forEach((q, i) => validateQuestion(questionType, q, answerArray[i], i));
+
+  if (questionType === 'Numeric') {
+    const toleranceArray = obj.ToleranceArray;
+    if (toleranceArray !== undefined && (!Array.isArray(toleranceArray) || toleranceArray.some((t) => typeof t !== 'number' || t < 0))) {
+      throw malformed('ToleranceArray must hold non-negative numbers');
+    }
+  }
+  return obj as unknown as ApiResponseData;
+}
+
+// Validates one question and its correct answer for the given type
+function validateQuestion(type: ItemType, q: unknown, answer: unknown, index: number) {
+  const label = `question ${index + 1}`;
+  switch (type) {
+    case 'Subjective':
+      validateText(q, label);
+      return;
+    case 'MCQ':
+      validateMcqQuestion(q, [answer], index);
+      return;
+    case 'MultiSelect':
+      if (!Array.isArray(answer) || answer.length === 0) throw malformed(`${label} has no correct answers`);
+      validateMcqQuestion(q, answer, index);
+      return;
+    case 'TrueFalse':
+      validateText(q, label);
+      if (typeof answer !== 'boolean') throw malformed(`${label}'s answer is not true/false`);
+      return;
+    case 'Numeric':
+      validateText(asRecord(q)?.Q, label);
+      if (typeof answer !== 'number' || !Number.isFinite(answer)) throw malformed(`${label}'s answer is not a number`);
+      return;
+    case 'AssertionReason': {
+      const item = asRecord(q);
+      validateText(item?.Assertion, `${label}'s assertion`);
+      validateText(item?.Reason, `${label}'s reason`);
+      if (typeof answer !== 'string' || !['A', 'B', 'C', 'D'].includes(answer)) throw malformed(`${label}'s answer must be A–D`);
+      return;
+    }
+  }
+}
+
+function validateText(value: unknown, label: string) {
+  if (typeof value !== 'string' || !value.trim()) throw malformed(`${label} has no text`);
+}
+
+function validateMcqQuestion(q: unknown, answers: unknown[], index: number): asserts q is McqQuestion {
+  const item = asRecord(q);
+  const label = `question ${index + 1}`;
+  validateText(item?.Q, label);
+  const opts = item?.Options;
+  if (!Array.isArray(opts) || opts.length === 0) throw malformed(`${label} has no options`);
+  if (opts.some((o) => typeof o !== 'string' || !o.trim())) throw malformed(`${label} has an empty option`);
+  for (const answer of answers) {
+    if (typeof answer !== 'string' || !answer.trim()) throw malformed(`${label} has no correct answer`);
+    // Scoring matches the answer letter against the option prefix, e.g. "B" vs "B. Delhi"
+    if (!opts.some((o: string) => o.startsWith(answer))) {
+      throw malformed(`${label}'s answer "${answer}" does not match any option`);
+    }
+  }
+}
+
+async function readStreamedQuiz(
+  resp: Response,
+  expectedTotal: number,
+  onProgress?: (progress: StreamedQuiz) => void,
+): Promise<ApiResponseData> {
+  let streamed: StreamedQuiz = { data: null, total: expectedTotal, done: false };
+  onProgress?.(streamed);
+  try {
+    for await (const event of readQuestionStream(resp)) {
+      streamed = applyStreamEvent(streamed, event);
+      if (event.type === 'question') {
+        streamed = { ...streamed, data: validateQuizData(streamed.data, { allowEmpty: true }) };
+        onProgress?.(streamed);
+      }
+      if (streamed.done) break;
+    }
+  } catch (err) {
+    if (err instanceof QuizApiError || isAbortError(err)) throw err;
+    // Errors raised mid-stream (network drop or an `error` event from the backend)
+    throw new QuizApiError(
+      err instanceof TypeError ? 'network' : 'server',
+      err instanceof Error ? err.message : 'Question generation failed',
+    );
+  }
+  return validateQuizData(streamed.data);
+}
+
+async function errorFromResponse(resp: Response): Promise<QuizApiError> {
+  const text = await resp.text().catch(() => '');
+  let detail = text;
+  try {
+    detail = messageFrom(JSON.parse(text)) || text;
+  } catch { /* plain-text body */ }
+  const message = `${resp.status} ${resp.statusText}${detail ? ` - ${detail}` : ''}`;
+
+  if (resp.status === 401 || resp.status === 403) return new QuizApiError('auth', message, resp.status);
+  if (resp.status === 402 || resp.status === 429) return new QuizApiError('quota', message, resp.status);
+  if (resp.status >= 400 && resp.status < 500) return new QuizApiError('request', message, resp.status);
+  return new QuizApiError('server', message, resp.status);
+}
+
+function malformed(reason: string) {
+  return new QuizApiError('malformed', `Malformed quiz payload: ${reason}`);
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+function messageFrom(value: unknown): string | undefined {
+  const obj = asRecord(value);
+  const message = obj?.message ?? obj?.error;
+  return typeof message === 'string' ? message : undefined;
+}
@@ -1,10 +1,46 @@
+import { fetchWithRetry, type RetryAttempt } from '../lib/fetchWithRetry';
+import type { SubjectiveEvaluation } from './evaluationApi';
+import type { MarkingScheme, ScoreSummary } from '../lib/markingSchemes';
+import type { FocusReport } from '../lib/focusTracking';
+import type { ConfidenceMap } from '../lib/calibration';
+import type { Explanation } from './explanationApi';
+import type { RetryLink } from '../lib/attempts';
+
+// How a quiz ended. limitMs is null for untimed quizzes.
+export interface SubmissionTiming {
+    limitMs: number | null;
+    remainingMs: number | null;
+    submittedBy: 'manual' | 'timeout';
+}
+
+// What the quiz was generated with, for grouping results in analytics
+export interface ResultSettings {
+    exam: string;
+    topic: string;
+    difficulty: string;
+    language: string;
+    questionType: string;
+}
+
 export interface SaveResultsPayload {
     topic: string;
     timeMs: number;
     questions: unknown; // keep generic to avoid tight coupling
     solutions: {
     userAnswers: Record<number, string>;
-    score: number;
+    score: number; // net objective marks plus subjective marks
+    maxScore?: number; // objective maximum plus full marks for every subjective question
+    written?: { marks: number; max: number }; // subjective part; skipped questions score 0
+    evaluations?: SubjectiveEvaluation[]; // AI grading of subjective answers
+    summary?: ScoreSummary; // objective questions only
+    markingScheme?: MarkingScheme;
+    timing?: SubmissionTiming;
+    perQuestionMs?: Record<number, number>; // time spent on each question, by index
+    focus?: FocusReport; // tab switches during the quiz
+    confidence?: ConfidenceMap;
+    explanations?: Record<number, Explanation>; // by question index, added from the answers review
+    retryOf?: RetryLink; // set when this attempt re-tried another result's mistakes
+    settings?: ResultSettings;
     };
 }
 
@@ -12,34 +48,62 @@ export async function saveResultsToBackend(params: {
     resultsUrl: string;
     payload: SaveResultsPayload;
     accessToken?: string;
-}): Promise<void> {
-    const { resultsUrl, payload, accessToken } = params;
+    // Same key for every attempt at saving one result, so the backend can drop
+    // duplicates; one is generated when the caller doesn't keep its own
+    idempotencyKey?: string;
+    maxAttempts?: number;
+    onRetry?: (info: RetryAttempt) => void;
+    signal?: AbortSignal;
+}): Promise<string | null> { // id of the saved result, when the backend returns it
+    const { resultsUrl, payload, accessToken, idempotencyKey = crypto.randomUUID(), maxAttempts, onRetry, signal } = params;
 
     const headers: Record<string, string> = { 'Content-Type':'application/json' };
 if (accessToken) headers['Authorization'] = `Bearer ${accessToken}`;
+headers['Idempotency-Key'] = idempotencyKey;
 
-const resp = await fetch(resultsUrl, {
+const resp = await fetchWithRetry(resultsUrl, {
     method: 'POST',
     headers,
     body: JSON.stringify(payload),
-});
+}, { onRetry, signal, maxAttempts, timeoutMs: 30_000 });
 
 if (!resp.ok) {
 const text = await resp.text().catch(() => '');
 throw new Error(`${resp.status} ${resp.statusText}${text ? `- ${text}` : ''}`);
 }
+const json = await resp.json().catch(() => null);
+return json?.data?.id ?? null;
 }
 
 export interface ResultsListItem {
     id: string;
     topic: string;
     created_at: string;
+    score?: number;
+    time_ms?: number;
+}
+
+// Search, filters and sort for the results list. Unset fields don't filter.
+export interface ResultsQuery {
+    search?: string; // matched against the topic, case-insensitively
+    exam?: string;
+    questionType?: string;
+    minScore?: number;
+    maxScore?: number;
+    from?: string; // 'YYYY-MM-DD', inclusive
+    to?: string; // 'YYYY-MM-DD', inclusive
+    sort?: 'date' | 'score' | 'time';
+    order?: 'asc' | 'desc';
 }
 
 export interface ResultsListResponse {
 data: ResultsListItem[];
 meta: { page: number; limit: number; total: number; hasMore:
-boolean };
+boolean;
+// Set by backends that applied the ResultsQuery; others ignore it
+filtered?: boolean;
+// Set when the query was applied in the browser to the newest results only
+truncated?: boolean };
 }
 
 export async function fetchResultsList(params: {
@@ -48,16 +112,22 @@ resultsUrl: string; // base, e.g. '/api/results'
 accessToken: string;
 page?: number;
 limit?: number;
+query?: ResultsQuery;
+onRetry?: (info: RetryAttempt) => void;
+signal?: AbortSignal;
 }): Promise<ResultsListResponse> {
-const { resultsUrl, accessToken, page = 0, limit = 5 } = params;
+const { resultsUrl, accessToken, page = 0, limit = 5, query = {}, onRetry, signal } = params;
 const url = new URL(resultsUrl, window.location.origin);
 url.searchParams.set('page', String(page));
 url.searchParams.set('limit', String(limit));
+for (const [key, value] of Object.entries(query)) {
+if (value !== undefined && value !== '') url.searchParams.set(key, String(value));
+}
 
 const resp = await
-fetch(url.toString().replace(window.location.origin, ''), {
+fetchWithRetry(url.toString().replace(window.location.origin, ''), {
 headers: { Authorization: `Bearer ${accessToken}` },
-});
+}, { onRetry, signal, timeoutMs: 30_000 });
 if (!resp.ok) {
 const text = await resp.text().catch(() => '');
 throw new Error(`${resp.status} ${resp.statusText}${text ? `
@@ -73,8 +143,12 @@ id: string;
 topic: string;
 time_ms: number;
 questions: unknown;
-solutions: { userAnswers: Record<number, string>; score: number
-};
+solutions: { userAnswers: Record<number, string>; score: number;
+maxScore?: number; written?: { marks: number; max: number };
+evaluations?: SubjectiveEvaluation[]; summary?: ScoreSummary; markingScheme?: MarkingScheme;
+timing?: SubmissionTiming; perQuestionMs?: Record<number, number>; focus?: FocusReport; confidence?: ConfidenceMap;
+explanations?: Record<number, Explanation>; retryOf?: RetryLink;
+settings?: ResultSettings };
 created_at: string;
 
 }
@@ -83,14 +157,39 @@ export async function fetchResultById(params: {
 resultsUrl: string; // base, e.g. '/api/results'
 accessToken: string;
 id: string;
+onRetry?: (info: RetryAttempt) => void;
+signal?: AbortSignal;
 }): Promise<ResultDetail> {
-const { resultsUrl, accessToken, id } = params;
+const { resultsUrl, accessToken, id, onRetry, signal } = params;
 const path = `${resultsUrl.replace(/\/$/,'')}/${encodeURIComponent(id)}`;
-const resp = await fetch(path, { headers: { Authorization:`Bearer ${accessToken}` } });
+const resp = await fetchWithRetry(path, { headers: { Authorization:`Bearer ${accessToken}` } }, { onRetry, signal, timeoutMs: 30_000 });
 if (!resp.ok) {
 const text = await resp.text().catch(() => '');
 throw new Error(`${resp.status} ${resp.statusText}${text ? `- ${text}` : ''}`);
 }
 const json = await resp.json();
 return json.data as ResultDetail;
-}
\ No newline at end of file
+}
+
+// Merges explanations into a saved result's solutions; returns the updated result
+export async function saveResultExplanations(params: {
+resultsUrl: string; // base, e.g. '/api/results'
+accessToken: string;
+id: string;
+explanations: Record<number, Explanation>;
+signal?: AbortSignal;
+}): Promise<ResultDetail> {
+const { resultsUrl, accessToken, id, explanations, signal } = params;
+const path = `${resultsUrl.replace(/\/$/,'')}/${encodeURIComponent(id)}`;
+const resp = await fetchWithRetry(path, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+    body: JSON.stringify({ solutions: { explanations } }),
+}, { signal, timeoutMs: 30_000 });
+if (!resp.ok) {
+const text = await resp.text().catch(() => '');
+throw new Error(`${resp.status} ${resp.statusText}${text ? `- ${text}` : ''}`);
+}
+const json = await resp.json();
+return json.data as ResultDetail;
+}
@@ -0,0 +1,103 @@
+// --- Quiz Type Definitions ---
+// Based on the backend's expected JSON structure
+
+export interface McqQuestion {
+  No: number;
+  Q: string;
+  Options: string[];
+}
+
+export interface ApiMcqResponse {
+  questionType: "MCQ";
+  QuestionArray: McqQuestion[];
+  AnswerArray: string[]; // This holds the correct answers, e.g., "B"
+}
+
+export interface ApiSubjectiveResponse {
+  questionType: "Subjective";
+  QuestionArray: string[];
+}
+
+// Multiple-correct MCQ: every listed letter must be picked
+export interface ApiMultiSelectResponse {
+  questionType: "MultiSelect";
+  QuestionArray: McqQuestion[];
+  AnswerArray: string[][]; // e.g. [["A", "C"], ["B"]]
+}
+
+export interface ApiTrueFalseResponse {
+  questionType: "TrueFalse";
+  QuestionArray: string[];
+  AnswerArray: boolean[];
+}
+
+export interface NumericQuestion {
+  No: number;
+  Q: string;
+  Unit?: string; // e.g. "m/s"
+}
+
+export interface ApiNumericResponse {
+  questionType: "Numeric";
+  QuestionArray: NumericQuestion[];
+  AnswerArray: number[];
+  ToleranceArray?: number[]; // absolute tolerance per question, defaults to exact
+}
+
+// UPSC-style Assertion (A) / Reason (R); options are the standard four
+export interface AssertionReasonQuestion {
+  No: number;
+  Assertion: string;
+  Reason: string;
+}
+
+export interface ApiAssertionReasonResponse {
+  questionType: "AssertionReason";
+  QuestionArray: AssertionReasonQuestion[];
+  AnswerArray: string[]; // "A" to "D"
+}
+
+// One question of a mixed paper; it carries its own type and answer
+export type MixedQuestion =
+  | { type: "MCQ"; Question: McqQuestion; Answer: string }
+  | { type: "Subjective"; Question: string }
+  | { type: "MultiSelect"; Question: McqQuestion; Answer: string[] }
+  | { type: "TrueFalse"; Question: string; Answer: boolean }
+  | { type: "Numeric"; Question: NumericQuestion; Answer: number; Tolerance?: number }
+  | { type: "AssertionReason"; Question: AssertionReasonQuestion; Answer: string };
+
+export interface ApiMixedResponse {
+  questionType: "Mixed";
+  QuestionArray: MixedQuestion[];
+}
+
+// A union type for the API data
+export type ApiResponseData =
+  | ApiMcqResponse
+  | ApiSubjectiveResponse
+  | ApiMultiSelectResponse
+  | ApiTrueFalseResponse
+  | ApiNumericResponse
+  | ApiAssertionReasonResponse
+  | ApiMixedResponse;
+
+export type QuestionType = ApiResponseData["questionType"];
+
+// The type of a single question; a "Mixed" quiz is made of these
+export type ItemType = MixedQuestion["type"];
+
+// How many questions of each type a Mixed quiz should have, e.g. { MCQ: 15, Subjective: 5 }
+export type QuestionMix = Partial<Record<ItemType, number>>;
+
+// The full API response structure
+export interface FullApiResponse {
+  status: "success";
+  data: ApiResponseData;
+}
+
+// Type for storing user's answers
+// Multi-select answers are stored as comma-joined letters ("A,C"), true/false
+// as "True"/"False" and numeric answers as the typed text.
+export interface UserAnswers {
+  [questionIndex: number]: string; // e.g., { 0: "A", 1: "My subjective answer" }
+}
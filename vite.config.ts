@@ -10,7 +10,7 @@ export default defineConfig({
 
     proxy: {
       '/api': {
-        target: 'https://practise-pitch-be.onrender.com',
+        target: process.env.API_PROXY_TARGET || 'https://practise-pitch-be.onrender.com',
         changeOrigin: true,
         secure: false,
       },